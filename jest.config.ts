@@ -30,10 +30,15 @@ const config: Config = {
         },
       },
     ],
+    // jose is only published as ES modules, which need compiling for the tests that use the real library
+    "^.+/node_modules/jose/.+\\.js$": ["ts-jest", { tsconfig: { allowJs: true } }],
   },
+  transformIgnorePatterns: ["/node_modules/(?!jose/)"],
   moduleNameMapper: {
     "^(\\.{1,2}/.*)\\.js$": "$1",
     "^jose$": "<rootDir>/src/__tests__/__mocks__/jose.ts",
+    // Escape hatch for tests that need real signatures: jest.mock("jose", () => jest.requireActual("jose/actual"))
+    "^jose/actual$": "<rootDir>/node_modules/jose/dist/webapi/index.js",
   },
   collectCoverageFrom: [
     "src/**/*.ts",
@@ -3,6 +3,62 @@ export const jwtVerify = jest.fn().mockResolvedValue({
   payload: { sub: "test-user-id" },
 });
 
-export const createRemoteJWKSet = jest.fn().mockReturnValue({
-  // Mock JWKS set
-});
+export const createRemoteJWKSet = jest.fn().mockImplementation(() =>
+  Object.assign(jest.fn(), {
+    // Mock JWKS set
+    fresh: true,
+    reload: jest.fn().mockResolvedValue(undefined),
+    jwks: jest.fn().mockReturnValue({ keys: [] }),
+  })
+);
+
+export const customFetch = Symbol("customFetch");
+
+// Mock JWT builder that encodes the header and claims without signing them
+export class SignJWT {
+  private header: Record<string, unknown> = {};
+  private claims: Record<string, unknown>;
+
+  constructor(payload: Record<string, unknown>) {
+    this.claims = { ...payload };
+  }
+
+  setProtectedHeader(header: Record<string, unknown>) {
+    this.header = header;
+    return this;
+  }
+
+  setIssuer(issuer: string) {
+    return this.set("iss", issuer);
+  }
+
+  setSubject(subject: string) {
+    return this.set("sub", subject);
+  }
+
+  setAudience(audience: string) {
+    return this.set("aud", audience);
+  }
+
+  setIssuedAt() {
+    return this.set("iat", Math.floor(Date.now() / 1000));
+  }
+
+  setExpirationTime(expiration: number) {
+    return this.set("exp", expiration);
+  }
+
+  setJti(jti: string) {
+    return this.set("jti", jti);
+  }
+
+  async sign() {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    return `${encode(this.header)}.${encode(this.claims)}.signature`;
+  }
+
+  private set(claim: string, value: unknown) {
+    this.claims[claim] = value;
+    return this;
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Tests for the admin API
+ */
+
+import express from "express";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import type winston from "winston";
+import { AdminApi, redactMappingEntry } from "../admin.js";
+import { DefaultMapper, ReloadableMapper, SqlMapper } from "../mapping.js";
+import { SqliteClient } from "../sql.js";
+import { createMockLogger } from "./helpers.js";
+
+const mapperConfig = {
+  ragieApiKey: "default-ragie-key",
+  strictApiKeys: false,
+};
+
+async function listen(api: AdminApi): Promise<[Server, string]> {
+  const app = express();
+  app.use("/admin", api.router);
+  const server = await new Promise<Server>(resolve => {
+    const server = app.listen(0, () => resolve(server));
+  });
+  return [server, `http://localhost:${(server.address() as AddressInfo).port}/admin`];
+}
+
+const authenticate = async (token: string) => (token === "admin-secret-token" ? "admin-token" : undefined);
+const headers = { Authorization: "Bearer admin-secret-token", "Content-Type": "application/json" };
+
+describe("redactMappingEntry", () => {
+  it("should hide plaintext API keys but not secret references", () => {
+    expect(redactMappingEntry({ partition: "p", apiKey: "plaintext" })).toEqual({
+      partition: "p",
+      apiKey: "[redacted]",
+    });
+    expect(redactMappingEntry({ partition: "p", apiKey: "env:ORG_KEY" })).toEqual({
+      partition: "p",
+      apiKey: "env:ORG_KEY",
+    });
+    expect(redactMappingEntry({ partition: "p" })).toEqual({ partition: "p" });
+  });
+});
+
+describe("AdminApi", () => {
+  describe("with a mapping file", () => {
+    let dir: string;
+    let mappingFile: string;
+    let mapper: ReloadableMapper;
+    let auditLogger: winston.Logger;
+    let server: Server;
+    let url: string;
+
+    beforeEach(async () => {
+      dir = mkdtempSync(join(tmpdir(), "admin-test-"));
+      mappingFile = join(dir, "mapping.json");
+      writeFileSync(mappingFile, JSON.stringify({ org1: { partition: "partition1", apiKey: "key1" } }));
+      mapper = new ReloadableMapper(mappingFile, file => DefaultMapper.load(mapperConfig, file), createMockLogger());
+      auditLogger = createMockLogger();
+      [server, url] = await listen(
+        new AdminApi({ mapperConfig, store: mapper, logger: createMockLogger(), auditLogger, authenticate })
+      );
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should reject requests without valid credentials", async () => {
+      let response = await fetch(`${url}/mappings`);
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toBe('Bearer realm="admin"');
+
+      response = await fetch(`${url}/mappings`, { headers: { Authorization: "Bearer wrong-token" } });
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ error: "Invalid admin credentials." });
+    });
+
+    it("should list and get entries with redacted API keys", async () => {
+      let response = await fetch(`${url}/mappings`, { headers });
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ org1: { partition: "partition1", apiKey: "[redacted]" } });
+
+      response = await fetch(`${url}/mappings/org1`, { headers });
+      expect(await response.json()).toEqual({ partition: "partition1", apiKey: "[redacted]" });
+
+      response = await fetch(`${url}/mappings/org2`, { headers });
+      expect(response.status).toBe(404);
+    });
+
+    it("should create entries, write them to the file and apply them", async () => {
+      const response = await fetch(`${url}/mappings/org2`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ partition: "partition2", apiKey: "key2" }),
+      });
+      expect(response.status).toBe(201);
+      expect(await response.json()).toEqual({ partition: "partition2", apiKey: "[redacted]" });
+
+      expect(JSON.parse(readFileSync(mappingFile, "utf-8"))).toEqual({
+        org1: { partition: "partition1", apiKey: "key1" },
+        org2: { partition: "partition2", apiKey: "key2" },
+      });
+      expect(await mapper.getPartition("org2")).toBe("partition2");
+      expect(await mapper.getApiKey("org2")).toBe("key2");
+      expect(auditLogger.info).toHaveBeenCalledWith("Mapping change", {
+        action: "create",
+        organizationId: "org2",
+        actor: "admin-token",
+        before: undefined,
+        after: { partition: "partition2", apiKey: "[redacted]" },
+      });
+    });
+
+    it("should not create entries that already exist", async () => {
+      const response = await fetch(`${url}/mappings/org1`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ partition: "other" }),
+      });
+      expect(response.status).toBe(409);
+      expect(await mapper.getPartition("org1")).toBe("partition1");
+    });
+
+    it("should not give two organizations the same slug", async () => {
+      await fetch(`${url}/mappings/org1`, { method: "PATCH", headers, body: JSON.stringify({ slug: "acme" }) });
+
+      const response = await fetch(`${url}/mappings/org2`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ partition: "partition2", slug: "acme" }),
+      });
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({ error: "Slug acme is already used by organization org1." });
+      expect(await mapper.resolveSlug("acme")).toBe("org1");
+      expect(await mapper.getEntry("org2")).toBeUndefined();
+    });
+
+    it("should replace entries", async () => {
+      let response = await fetch(`${url}/mappings/org1`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ partition: "replaced", allowedTools: ["search"] }),
+      });
+      expect(response.status).toBe(200);
+      expect(await mapper.getPartition("org1")).toBe("replaced");
+      expect(await mapper.getApiKey("org1")).toBe("default-ragie-key");
+      expect(auditLogger.info).toHaveBeenCalledWith("Mapping change", {
+        action: "update",
+        organizationId: "org1",
+        actor: "admin-token",
+        before: { partition: "partition1", apiKey: "[redacted]" },
+        after: { partition: "replaced", allowedTools: ["search"] },
+      });
+
+      response = await fetch(`${url}/mappings/org2`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ partition: "p" }),
+      });
+      expect(response.status).toBe(404);
+    });
+
+    it("should update entries without resending the API key", async () => {
+      let response = await fetch(`${url}/mappings/org1`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ partition: "patched" }),
+      });
+      expect(response.status).toBe(200);
+      expect(await mapper.getPartition("org1")).toBe("patched");
+      expect(await mapper.getApiKey("org1")).toBe("key1");
+
+      response = await fetch(`${url}/mappings/org1`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ apiKey: null }),
+      });
+      expect(await response.json()).toEqual({ partition: "patched" });
+      expect(await mapper.getApiKey("org1")).toBe("default-ragie-key");
+    });
+
+    it("should keep keys that the gateway does not know when writing the file", async () => {
+      writeFileSync(
+        mappingFile,
+        JSON.stringify({
+          org1: { partition: "partition1", apiKey: "key1", comment: "Acme" },
+          org3: { partition: "partition3", owner: "team-a" },
+        })
+      );
+
+      const response = await fetch(`${url}/mappings/org1`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ partition: "patched" }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(JSON.parse(readFileSync(mappingFile, "utf8"))).toEqual({
+        org1: { partition: "patched", apiKey: "key1", comment: "Acme" },
+        org3: { partition: "partition3", owner: "team-a" },
+      });
+    });
+
+    it("should not let admins point API keys at the gateway's environment or files", async () => {
+      const attempts = [
+        { partition: "partition1", apiKey: "env:WORKOS_API_KEY", upstream: { url: "https://attacker.example" } },
+        { partition: "partition1", apiKey: "file:/proc/self/environ" },
+      ];
+      process.env["WORKOS_API_KEY"] = "sk_workos";
+      try {
+        for (const body of attempts) {
+          const response = await fetch(`${url}/mappings/org1`, { method: "PUT", headers, body: JSON.stringify(body) });
+          expect(response.status).toBe(400);
+          expect(await response.json()).toEqual({
+            error: "apiKey must be an API key or an enc:v1: value. env: and file: references cannot be set here.",
+          });
+        }
+      } finally {
+        delete process.env["WORKOS_API_KEY"];
+      }
+
+      expect(JSON.parse(readFileSync(mappingFile, "utf-8"))).toEqual({
+        org1: { partition: "partition1", apiKey: "key1" },
+      });
+      expect(auditLogger.info).not.toHaveBeenCalled();
+    });
+
+    it("should keep references written by operators unless the upstream changes", async () => {
+      process.env["ORG1_RAGIE_KEY"] = "org1-key";
+      writeFileSync(mappingFile, JSON.stringify({ org1: { partition: "partition1", apiKey: "env:ORG1_RAGIE_KEY" } }));
+
+      try {
+        let response = await fetch(`${url}/mappings/org1`, {
+          method: "PATCH",
+          headers,
+          body: JSON.stringify({ partition: "patched" }),
+        });
+        expect(response.status).toBe(200);
+        expect(await mapper.getApiKey("org1")).toBe("org1-key");
+
+        response = await fetch(`${url}/mappings/org1`, {
+          method: "PATCH",
+          headers,
+          body: JSON.stringify({ upstream: { url: "https://attacker.example" } }),
+        });
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as { error: string }).error).toContain("env: and file: references");
+        expect(await mapper.getUpstream("org1")).toBeUndefined();
+      } finally {
+        delete process.env["ORG1_RAGIE_KEY"];
+      }
+    });
+
+    it("should reject invalid entries without changing the mapping", async () => {
+      let response = await fetch(`${url}/mappings/org1`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ apiKey: "key1" }),
+      });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: "Invalid mapping entry.",
+        issues: [{ path: "partition", message: expect.any(String) }],
+      });
+
+      response = await fetch(`${url}/mappings/org1`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ apiKey: "[redacted]" }),
+      });
+      expect(response.status).toBe(400);
+
+      expect(JSON.parse(readFileSync(mappingFile, "utf-8"))).toEqual({
+        org1: { partition: "partition1", apiKey: "key1" },
+      });
+      expect(auditLogger.info).not.toHaveBeenCalled();
+    });
+
+    it("should delete entries", async () => {
+      let response = await fetch(`${url}/mappings/org1`, { method: "DELETE", headers });
+      expect(response.status).toBe(204);
+      expect(await mapper.getApiKey("org1")).toBe("default-ragie-key");
+      expect(JSON.parse(readFileSync(mappingFile, "utf-8"))).toEqual({});
+      expect(auditLogger.info).toHaveBeenCalledWith("Mapping change", {
+        action: "delete",
+        organizationId: "org1",
+        actor: "admin-token",
+        before: { partition: "partition1", apiKey: "[redacted]" },
+        after: undefined,
+      });
+
+      response = await fetch(`${url}/mappings/org1`, { method: "DELETE", headers });
+      expect(response.status).toBe(404);
+    });
+
+    it("should apply concurrent changes one at a time", async () => {
+      const responses = await Promise.all(
+        ["org2", "org3", "org4"].map(id =>
+          fetch(`${url}/mappings/${id}`, { method: "POST", headers, body: JSON.stringify({ partition: id }) })
+        )
+      );
+      expect(responses.map(response => response.status)).toEqual([201, 201, 201]);
+      expect(Object.keys(JSON.parse(readFileSync(mappingFile, "utf-8"))).sort()).toEqual([
+        "org1",
+        "org2",
+        "org3",
+        "org4",
+      ]);
+    });
+  });
+
+  describe("with a SQL table", () => {
+    let client: SqliteClient;
+    let mapper: SqlMapper;
+    let server: Server;
+    let url: string;
+
+    beforeEach(async () => {
+      client = new SqliteClient(":memory:");
+      await client.query(
+        `CREATE TABLE organization_mappings (
+          organization_id TEXT PRIMARY KEY,
+          partition TEXT NOT NULL,
+          slug TEXT UNIQUE,
+          api_key TEXT,
+          policy TEXT,
+          allowed_tools TEXT,
+          denied_tools TEXT,
+          rate_limits TEXT,
+          upstream TEXT
+        )`
+      );
+      mapper = new SqlMapper(client, "organization_mappings", json => DefaultMapper.parse(mapperConfig, json), 60_000);
+      [server, url] = await listen(
+        new AdminApi({
+          mapperConfig,
+          store: mapper,
+          logger: createMockLogger(),
+          auditLogger: createMockLogger(),
+          authenticate,
+        })
+      );
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+      await client.close();
+    });
+
+    it("should write entries to the table and invalidate cached lookups", async () => {
+      await fetch(`${url}/mappings/org1`, { method: "POST", headers, body: JSON.stringify({ partition: "first" }) });
+      expect(await mapper.getPartition("org1")).toBe("first");
+
+      await fetch(`${url}/mappings/org1`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ deniedTools: ["delete"], rateLimits: { user: { requestsPerMinute: 10 } } }),
+      });
+      expect(await mapper.getToolFilter("org1")).toEqual({ deniedTools: ["delete"] });
+      expect(await client.query("SELECT partition, denied_tools FROM organization_mappings")).toEqual([
+        { partition: "first", denied_tools: JSON.stringify(["delete"]) },
+      ]);
+
+      const response = await fetch(`${url}/mappings/org1`, { method: "DELETE", headers });
+      expect(response.status).toBe(204);
+      expect(await client.query("SELECT * FROM organization_mappings")).toEqual([]);
+      expect(await mapper.getPartition("org1")).toBe("org1");
+    });
+  });
+
+  it("should answer with a JSON error when credentials cannot be checked", async () => {
+    const logger = createMockLogger();
+    const [server, url] = await listen(
+      new AdminApi({
+        mapperConfig,
+        store: undefined,
+        logger,
+        auditLogger: createMockLogger(),
+        authenticate: jest.fn().mockRejectedValue(new Error("WorkOS is unavailable")),
+      })
+    );
+    try {
+      const response = await fetch(`${url}/mappings`, { headers });
+      expect(response.status).toBe(502);
+      expect(await response.json()).toEqual({
+        error: "Admin credentials could not be verified. Please try again later.",
+      });
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("WorkOS is unavailable"));
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it("should report that the mapping backend cannot be changed", async () => {
+    const [server, url] = await listen(
+      new AdminApi({
+        mapperConfig,
+        store: undefined,
+        logger: createMockLogger(),
+        auditLogger: createMockLogger(),
+        authenticate,
+      })
+    );
+    try {
+      const response = await fetch(`${url}/mappings`, { headers });
+      expect(response.status).toBe(501);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
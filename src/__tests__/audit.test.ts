@@ -0,0 +1,85 @@
+/**
+ * Tests for audit logging
+ */
+
+import { createServer, IncomingMessage, Server } from "http";
+import type { AddressInfo } from "net";
+import winston from "winston";
+import { fingerprintApiKey, WebhookTransport } from "../audit.js";
+
+describe("fingerprintApiKey", () => {
+  it("should be stable and not contain the key", () => {
+    const fingerprint = fingerprintApiKey("ragie_secret_key");
+    expect(fingerprint).toBe(fingerprintApiKey("ragie_secret_key"));
+    expect(fingerprint).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(fingerprint).not.toContain("ragie_secret_key");
+  });
+
+  it("should differ between keys", () => {
+    expect(fingerprintApiKey("key1")).not.toBe(fingerprintApiKey("key2"));
+  });
+});
+
+describe("WebhookTransport", () => {
+  let server: Server;
+  let received: Promise<{ req: IncomingMessage; body: string }>;
+
+  beforeEach(async () => {
+    received = new Promise(resolve => {
+      server = createServer((req, res) => {
+        let body = "";
+        req.on("data", chunk => (body += chunk));
+        req.on("end", () => {
+          res.end();
+          resolve({ req, body });
+        });
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("should post audit events as JSON", async () => {
+    const url = `http://localhost:${(server.address() as AddressInfo).port}/audit`;
+    const transport = new WebhookTransport({ url });
+    const callback = jest.fn();
+
+    transport.log({ message: "MCP request", organizationId: "org1" }, callback);
+    const { req, body } = await received;
+
+    expect(callback).toHaveBeenCalled();
+    expect(req.method).toBe("POST");
+    expect(req.url).toBe("/audit");
+    expect(req.headers["content-type"]).toBe("application/json");
+    expect(JSON.parse(body)).toEqual({ message: "MCP request", organizationId: "org1" });
+  });
+
+  it("should report webhooks that fail or do not respond in time as warnings of the audit logger", async () => {
+    let requests = 0;
+    const failing = createServer((req, res) => {
+      requests++;
+      if (requests === 1) {
+        res.statusCode = 503;
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => failing.listen(0, resolve));
+    const url = `http://localhost:${(failing.address() as AddressInfo).port}/audit`;
+    const logger = winston.createLogger({ transports: [new WebhookTransport({ url, timeoutMs: 50 })] });
+    const nextWarning = () => new Promise<unknown>(resolve => logger.once("warn", resolve));
+
+    let warning = nextWarning();
+    logger.info("MCP request", { organizationId: "org1" });
+    expect(await warning).toEqual(new Error("Audit webhook responded with status 503"));
+
+    warning = nextWarning();
+    logger.info("MCP request", { organizationId: "org1" });
+    expect(await warning).toMatchObject({ name: "TimeoutError" });
+
+    failing.closeAllConnections();
+    await new Promise(resolve => failing.close(resolve));
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * Tests for the gateway-issued OAuth authorization code flow
+ */
+
+import type { WorkOS } from "@workos-inc/node";
+import { createHash, createPublicKey, generateKeyPairSync } from "crypto";
+import express from "express";
+import { Server } from "http";
+import { createLocalJWKSet, decodeProtectedHeader, JSONWebKeySet, jwtVerify, SignJWT } from "jose";
+import { AddressInfo } from "net";
+import type winston from "winston";
+import { AuthorizationServer } from "../authorization-server.js";
+import type { CachedMembership } from "../membership.js";
+import { createMockLogger } from "./helpers.js";
+
+// The gateway issues its own tokens here, so their signatures are created and checked by the real library
+jest.mock("jose", () => jest.requireActual("jose/actual"));
+
+const redirectUri = "http://localhost:53682/callback";
+const codeVerifier = "a".repeat(43);
+const codeChallenge = createHash("sha256").update(codeVerifier).digest("base64url");
+const signingKey = generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey;
+
+describe("AuthorizationServer", () => {
+  const realFetch = global.fetch;
+  let server: Server;
+  let issuer: string;
+  let authorizationServer: AuthorizationServer;
+  let authenticateWithCode: jest.Mock;
+  let getMembership: jest.Mock<Promise<CachedMembership>>;
+  let auditLogger: winston.Logger;
+
+  async function startServer(key: string | undefined): Promise<void> {
+    const workos = {
+      userManagement: {
+        getAuthorizationUrl: jest.fn(
+          ({ state, organizationId }: { state: string; organizationId?: string }) =>
+            `https://auth.example.com/authorize?state=${state}&organization_id=${organizationId ?? ""}`
+        ),
+        authenticateWithCode,
+      },
+    } as unknown as WorkOS;
+
+    const app = express();
+    server = await new Promise<Server>(resolve => {
+      const server = app.listen(0, () => resolve(server));
+    });
+    issuer = `http://localhost:${(server.address() as AddressInfo).port}`;
+    authorizationServer = new AuthorizationServer({
+      workos,
+      clientId: "workos_client_id",
+      issuer,
+      signingKey: key,
+      accessTokenTtlMs: 300_000,
+      refreshTokenTtlMs: 3_600_000,
+      redirectUriPatterns: ["http://localhost:*/callback"],
+      staticClientId: "client1",
+      scopes: ["openid", "offline_access"],
+      resolveResource: resource => resource.match(/^https:\/\/mcp\.example\.com\/([^/]+)\/mcp$/)?.[1],
+      resourceUrl: organizationId => `https://mcp.example.com/${organizationId}/mcp`,
+      getMembership,
+      logger: createMockLogger(),
+      auditLogger,
+    });
+    app.use(authorizationServer.router);
+  }
+
+  beforeEach(async () => {
+    authenticateWithCode = jest.fn().mockResolvedValue({ user: { id: "user1" }, organizationId: "org2" });
+    getMembership = jest.fn().mockResolvedValue({ isMember: true, role: "member", permissions: ["mcp:read"] });
+    auditLogger = createMockLogger();
+    await startServer(signingKey.export({ format: "pem", type: "pkcs8" }).toString());
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function get(path: string, params: Record<string, string>): Promise<URL> {
+    const response = await realFetch(`${issuer}${path}?${new URLSearchParams(params)}`, { redirect: "manual" });
+    expect(response.status).toBe(302);
+    return new URL(response.headers.get("location") ?? "");
+  }
+
+  async function token(params: Record<string, string>) {
+    const response = await realFetch(`${issuer}/token`, { method: "POST", body: new URLSearchParams(params) });
+    return { status: response.status, body: (await response.json()) as Record<string, string> };
+  }
+
+  async function publishedKeys(): Promise<JSONWebKeySet> {
+    return (await (await realFetch(`${issuer}/.well-known/jwks.json`)).json()) as JSONWebKeySet;
+  }
+
+  async function authorize(params: Record<string, string> = {}): Promise<URL> {
+    const signIn = await get("/authorize", {
+      response_type: "code",
+      client_id: "client1",
+      redirect_uri: redirectUri,
+      state: "client-state",
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+      ...params,
+    });
+    return get("/callback", { code: "workos-code", state: signIn.searchParams.get("state") ?? "" });
+  }
+
+  async function exchange(code: string) {
+    return token({
+      grant_type: "authorization_code",
+      client_id: "client1",
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: codeVerifier,
+    });
+  }
+
+  it("should issue organization-scoped tokens for the resource the client asked for", async () => {
+    const signIn = await get("/authorize", {
+      response_type: "code",
+      client_id: "client1",
+      redirect_uri: redirectUri,
+      state: "client-state",
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+      resource: "https://mcp.example.com/org1/mcp",
+    });
+    expect(signIn.origin).toBe("https://auth.example.com");
+    expect(signIn.searchParams.get("organization_id")).toBe("org1");
+
+    const callback = await get("/callback", { code: "workos-code", state: signIn.searchParams.get("state") ?? "" });
+    expect(`${callback.origin}${callback.pathname}`).toBe(redirectUri);
+    expect(callback.searchParams.get("state")).toBe("client-state");
+    expect(callback.searchParams.get("iss")).toBe(issuer);
+    expect(authenticateWithCode).toHaveBeenCalledWith({ clientId: "workos_client_id", code: "workos-code" });
+    expect(getMembership).toHaveBeenCalledWith("user1", "org1");
+    expect(auditLogger.info).toHaveBeenCalledWith(
+      "Authorization grant",
+      expect.objectContaining({ userId: "user1", organizationId: "org1", clientId: "client1" })
+    );
+
+    const { status, body } = await exchange(callback.searchParams.get("code") ?? "");
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ token_type: "Bearer", expires_in: 300, scope: "openid offline_access" });
+    expect(await authorizationServer.verifyAccessToken(body["access_token"] ?? "", "org1")).toMatchObject({
+      iss: issuer,
+      sub: "user1",
+      aud: "https://mcp.example.com/org1/mcp",
+      org_id: "org1",
+      role: "member",
+      client_id: "client1",
+    });
+    await expect(authorizationServer.verifyAccessToken(body["access_token"] ?? "", "org2")).rejects.toThrow();
+    await expect(authorizationServer.verifyAccessToken(body["refresh_token"] ?? "", "org1")).rejects.toThrow();
+  });
+
+  it("should use the organization picked while signing in without a resource indicator", async () => {
+    const callback = await authorize();
+
+    const { body } = await exchange(callback.searchParams.get("code") ?? "");
+
+    expect(getMembership).toHaveBeenCalledWith("user1", "org2");
+    expect(await authorizationServer.verifyAccessToken(body["access_token"] ?? "", "org2")).toMatchObject({
+      org_id: "org2",
+    });
+  });
+
+  it("should reject invalid authorization requests", async () => {
+    const response = await realFetch(
+      `${issuer}/authorize?${new URLSearchParams({ client_id: "client1", redirect_uri: "https://evil.example.com/" })}`,
+      { redirect: "manual" }
+    );
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "invalid_request",
+      error_description: "Redirect URI https://evil.example.com/ is not allowed.",
+    });
+
+    let redirect = await get("/authorize", {
+      response_type: "code",
+      client_id: "client1",
+      redirect_uri: redirectUri,
+      state: "client-state",
+    });
+    expect(redirect.searchParams.get("error")).toBe("invalid_request");
+    expect(redirect.searchParams.get("state")).toBe("client-state");
+
+    redirect = await get("/authorize", {
+      response_type: "code",
+      client_id: "client1",
+      redirect_uri: redirectUri,
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+      resource: "https://other.example.com/mcp",
+    });
+    expect(redirect.searchParams.get("error")).toBe("invalid_target");
+  });
+
+  it("should deny users who are not members of the organization", async () => {
+    getMembership.mockResolvedValue({ isMember: false, role: undefined, permissions: [] });
+
+    const callback = await authorize();
+
+    expect(callback.searchParams.get("error")).toBe("access_denied");
+    expect(callback.searchParams.get("code")).toBeNull();
+  });
+
+  it("should not redeem the code of a user who left the organization since authorizing", async () => {
+    const code = (await authorize()).searchParams.get("code") ?? "";
+    getMembership.mockResolvedValue({ isMember: false, role: undefined, permissions: [] });
+
+    expect(await exchange(code)).toEqual({
+      status: 400,
+      body: { error: "invalid_grant", error_description: "The user is no longer a member of the organization." },
+    });
+  });
+
+  it("should redeem an authorization code once and only with its code verifier", async () => {
+    const code = (await authorize()).searchParams.get("code") ?? "";
+
+    const mismatch = await token({
+      grant_type: "authorization_code",
+      client_id: "client1",
+      code,
+      redirect_uri: redirectUri,
+      code_verifier: "b".repeat(43),
+    });
+    expect(mismatch).toEqual({
+      status: 400,
+      body: { error: "invalid_grant", error_description: "The code verifier does not match the code challenge." },
+    });
+
+    expect((await exchange(code)).status).toBe(200);
+    expect((await exchange(code)).body).toMatchObject({ error: "invalid_grant" });
+  });
+
+  it("should refresh access tokens while the user is a member of the organization", async () => {
+    const { body } = await exchange((await authorize()).searchParams.get("code") ?? "");
+    const refresh = { grant_type: "refresh_token", client_id: "client1", refresh_token: body["refresh_token"] ?? "" };
+
+    const refreshed = await token(refresh);
+    expect(refreshed.status).toBe(200);
+    expect(await authorizationServer.verifyAccessToken(refreshed.body["access_token"] ?? "", "org2")).toMatchObject({
+      sub: "user1",
+    });
+
+    const rotated = { ...refresh, refresh_token: refreshed.body["refresh_token"] ?? "" };
+    const otherClient = await authorizationServer.registerClient([redirectUri]);
+    expect((await token({ ...rotated, client_id: otherClient })).body).toEqual({
+      error: "invalid_grant",
+      error_description: "The refresh token was issued to another client.",
+    });
+    getMembership.mockResolvedValue({ isMember: false, role: undefined, permissions: [] });
+    expect((await token(rotated)).body).toEqual({
+      error: "invalid_grant",
+      error_description: "The user is no longer a member of the organization.",
+    });
+  });
+
+  it("should rotate refresh tokens and revoke them all when one is used again", async () => {
+    const { body } = await exchange((await authorize()).searchParams.get("code") ?? "");
+    const refresh = (refreshToken: string | undefined) =>
+      token({ grant_type: "refresh_token", client_id: "client1", refresh_token: refreshToken ?? "" });
+
+    const first = await refresh(body["refresh_token"]);
+    const second = await refresh(first.body["refresh_token"]);
+    expect(second.status).toBe(200);
+    expect(second.body["refresh_token"]).not.toBe(first.body["refresh_token"]);
+
+    expect((await refresh(body["refresh_token"])).body).toEqual({
+      error: "invalid_grant",
+      error_description: "The refresh token has already been used.",
+    });
+    expect(auditLogger.info).toHaveBeenCalledWith(
+      "Refresh token reuse",
+      expect.objectContaining({ userId: "user1", organizationId: "org2", clientId: "client1" })
+    );
+    expect((await refresh(second.body["refresh_token"])).body).toEqual({
+      error: "invalid_grant",
+      error_description: "The refresh token has been revoked.",
+    });
+  });
+
+  it("should only accept registered clients with their registered redirect URIs", async () => {
+    const registeredUri = "http://localhost:1234/callback";
+    const clientId = await authorizationServer.registerClient([registeredUri]);
+
+    const unknown = await realFetch(
+      `${issuer}/authorize?${new URLSearchParams({ client_id: "client2", redirect_uri: redirectUri })}`,
+      { redirect: "manual" }
+    );
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toEqual({
+      error: "invalid_client",
+      error_description: "The client is not registered.",
+    });
+    const unregisteredUri = await realFetch(
+      `${issuer}/authorize?${new URLSearchParams({ client_id: clientId, redirect_uri: redirectUri })}`,
+      { redirect: "manual" }
+    );
+    expect(unregisteredUri.status).toBe(400);
+    expect(await unregisteredUri.json()).toMatchObject({ error: "invalid_request" });
+    expect((await token({ grant_type: "refresh_token", client_id: "client2", refresh_token: "x" })).body).toEqual({
+      error: "invalid_client",
+      error_description: "The client is not registered.",
+    });
+
+    const callback = await authorize({ client_id: clientId, redirect_uri: registeredUri });
+    expect(`${callback.origin}${callback.pathname}`).toBe(registeredUri);
+    const { status } = await token({
+      grant_type: "authorization_code",
+      client_id: clientId,
+      code: callback.searchParams.get("code") ?? "",
+      redirect_uri: registeredUri,
+      code_verifier: codeVerifier,
+    });
+    expect(status).toBe(200);
+  });
+
+  it("should publish the public signing key", async () => {
+    const response = await realFetch(`${issuer}/.well-known/jwks.json`);
+    const { keys } = (await response.json()) as { keys: Record<string, string>[] };
+
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({ kty: "EC", crv: "P-256", alg: "ES256", use: "sig" });
+    expect(keys[0]).not.toHaveProperty("d");
+    expect(keys[0]?.["kid"]).toEqual(expect.any(String));
+  });
+
+  it("should sign tokens with the configured key under the published key ID", async () => {
+    const { body } = await exchange((await authorize()).searchParams.get("code") ?? "");
+    const accessToken = body["access_token"] ?? "";
+    const jwks = await publishedKeys();
+
+    expect(decodeProtectedHeader(accessToken)).toEqual({ alg: "ES256", typ: "at+jwt", kid: jwks.keys[0]?.kid });
+    await expect(jwtVerify(accessToken, createPublicKey(signingKey), { issuer })).resolves.toBeDefined();
+    await expect(jwtVerify(accessToken, createLocalJWKSet(jwks), { issuer })).resolves.toBeDefined();
+  });
+
+  it("should sign tokens with an ephemeral key when none is configured", async () => {
+    await new Promise(resolve => server.close(resolve));
+    await startServer(undefined);
+
+    const { body } = await exchange((await authorize()).searchParams.get("code") ?? "");
+    const accessToken = body["access_token"] ?? "";
+
+    await expect(jwtVerify(accessToken, createLocalJWKSet(await publishedKeys()), { issuer })).resolves.toBeDefined();
+    await expect(jwtVerify(accessToken, createPublicKey(signingKey))).rejects.toThrow("signature verification failed");
+    expect(await authorizationServer.verifyAccessToken(accessToken, "org2")).toMatchObject({ sub: "user1" });
+  });
+
+  it("should reject tampered tokens", async () => {
+    const { body } = await exchange((await authorize()).searchParams.get("code") ?? "");
+    const tamper = (token: string) => {
+      const [header, payload, signature] = token.split(".");
+      const claims = JSON.parse(Buffer.from(payload ?? "", "base64url").toString()) as Record<string, unknown>;
+      const forged = Buffer.from(JSON.stringify({ ...claims, org_id: "org1", role: "admin" })).toString("base64url");
+      return `${header}.${forged}.${signature}`;
+    };
+
+    await expect(authorizationServer.verifyAccessToken(tamper(body["access_token"] ?? ""), "org1")).rejects.toThrow(
+      "signature verification failed"
+    );
+    const refresh = {
+      grant_type: "refresh_token",
+      client_id: "client1",
+      refresh_token: tamper(body["refresh_token"] ?? ""),
+    };
+    expect((await token(refresh)).body).toMatchObject({ error: "invalid_grant" });
+  });
+
+  it("should reject tokens of the wrong type", async () => {
+    const code = (await authorize()).searchParams.get("code") ?? "";
+    const { body } = await exchange(code);
+    const { keys } = await publishedKeys();
+    const untyped = await new SignJWT({ org_id: "org2", client_id: "client1" })
+      .setProtectedHeader({ alg: "ES256", typ: "JWT", kid: String(keys[0]?.kid) })
+      .setIssuer(issuer)
+      .setSubject("user1")
+      .setAudience("https://mcp.example.com/org2/mcp")
+      .setExpirationTime("5m")
+      .sign(signingKey);
+
+    await expect(authorizationServer.verifyAccessToken(untyped, "org2")).rejects.toThrow('unexpected "typ" JWT header');
+    for (const refreshToken of [body["access_token"] ?? "", code]) {
+      const refresh = { grant_type: "refresh_token", client_id: "client1", refresh_token: refreshToken };
+      expect((await token(refresh)).body).toMatchObject({ error: "invalid_grant" });
+    }
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for the LruCache class
+ */
+
+import { LruCache } from "../cache.js";
+
+describe("LruCache", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should return cached values", () => {
+    const cache = new LruCache<string>(10);
+    cache.set("a", "value", 1000);
+    expect(cache.get("a")).toBe("value");
+    expect(cache.get("b")).toBeUndefined();
+  });
+
+  it("should expire entries after their TTL", () => {
+    jest.useFakeTimers();
+    const cache = new LruCache<string>(10);
+    cache.set("a", "value", 1000);
+
+    jest.advanceTimersByTime(1001);
+
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it("should evict the least recently used entry when full", () => {
+    const cache = new LruCache<string>(2);
+    cache.set("a", "1", 1000);
+    cache.set("b", "2", 1000);
+    cache.get("a");
+    cache.set("c", "3", 1000);
+
+    expect(cache.get("a")).toBe("1");
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toBe("3");
+  });
+
+  it("should not store entries with a non-positive TTL", () => {
+    const cache = new LruCache<string>(2);
+    cache.set("a", "1", 0);
+    expect(cache.get("a")).toBeUndefined();
+  });
+
+  it("should delete the entries matching a predicate", () => {
+    const cache = new LruCache<string>(10);
+    cache.set("org1:admin", "a", 1000);
+    cache.set("org1:member", "b", 1000);
+    cache.set("org2:admin", "c", 1000);
+
+    cache.deleteMatching((key, value) => key.startsWith("org1:") && value !== "b");
+
+    expect(cache.get("org1:admin")).toBeUndefined();
+    expect(cache.get("org1:member")).toBe("b");
+    expect(cache.get("org2:admin")).toBe("c");
+  });
+});
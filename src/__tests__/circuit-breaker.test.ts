@@ -0,0 +1,86 @@
+/**
+ * Tests for the upstream circuit breaker
+ */
+
+import { CircuitBreaker, CircuitState } from "../circuit-breaker.js";
+
+describe("CircuitBreaker", () => {
+  let transitions: [CircuitState, CircuitState][];
+
+  function createBreaker(failureThreshold = 3): CircuitBreaker {
+    return new CircuitBreaker({
+      failureThreshold,
+      resetTimeoutMs: 10_000,
+      onStateChange: (state, previous) => transitions.push([previous, state]),
+    });
+  }
+
+  beforeEach(() => {
+    transitions = [];
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should open after consecutive failures", () => {
+    const breaker = createBreaker();
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.retryAfterMs()).toBe(10_000);
+    expect(transitions).toEqual([["closed", "open"]]);
+  });
+
+  it("should let a request through once the reset timeout has passed", () => {
+    const breaker = createBreaker(1);
+    breaker.recordFailure();
+
+    jest.advanceTimersByTime(9_999);
+    expect(breaker.allowRequest()).toBe(false);
+    jest.advanceTimersByTime(1);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getState()).toBe("half_open");
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe("closed");
+    expect(transitions).toEqual([
+      ["closed", "open"],
+      ["open", "half_open"],
+      ["half_open", "closed"],
+    ]);
+  });
+
+  it("should reopen when the request in the half-open state fails", () => {
+    const breaker = createBreaker();
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+    jest.advanceTimersByTime(10_000);
+    breaker.allowRequest();
+
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.retryAfterMs()).toBe(10_000);
+  });
+
+  it("should never open with a threshold of 0", () => {
+    const breaker = createBreaker(0);
+    for (let i = 0; i < 100; i++) {
+      breaker.recordFailure();
+    }
+
+    expect(breaker.allowRequest()).toBe(true);
+    expect(transitions).toEqual([]);
+  });
+});
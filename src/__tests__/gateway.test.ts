@@ -2,39 +2,180 @@
  * Tests for the Gateway class
  */
 
+import type { WorkOS } from "@workos-inc/node";
+import type { NextFunction, Request, Response } from "express";
+import { createServer, IncomingMessage, RequestListener, Server } from "http";
+import type { AddressInfo } from "net";
+import { createRemoteJWKSet, jwtVerify } from "jose";
+import winston from "winston";
+import { fingerprintApiKey } from "../audit.js";
+import { Config } from "../config.js";
 import { Gateway } from "../gateway.js";
-import { DefaultMapper, MapperConfig } from "../mapping.js";
+import type { ReadinessReport } from "../health.js";
+import { DefaultMapper, HttpMapper, MapperConfig, StrictMapper } from "../mapping.js";
+import { InMemoryMembershipCache } from "../membership.js";
+import { createRedisClient, RedisRateLimitStore } from "../rate-limit.js";
+
+const mapperConfig: MapperConfig = {
+  ragieApiKey: "ragie_api_key",
+  strictApiKeys: false,
+};
+
+const config: Config = {
+  accessTokenTtl: 300,
+  authorizationMode: "membership",
+  authorizationServer: "workos",
+  authorizationServerMetadataTimeout: 5,
+  authorizationServerMetadataCacheTtl: 300,
+  authorizationServerMetadataOverrides: {},
+  ...mapperConfig,
+  adminToken: undefined,
+  adminOrganizationId: undefined,
+  adminRole: "admin",
+  adminPort: undefined,
+  baseUrl: "http://localhost:3000",
+  circuitBreakerThreshold: 5,
+  circuitBreakerResetTimeout: 30,
+  jwksCacheMaxAge: 600,
+  jwksCooldown: 30,
+  jwksPrewarm: true,
+  clientRegistration: "off",
+  clientRegistrationRedirectUris: [],
+  clientRegistrationUrl: "https://placeholder.authkit.app/oauth2/register",
+  clientRegistrationClientId: "workos_client_id",
+  port: 3002,
+  protectedResourceScopes: ["openid", "profile", "email", "offline_access"],
+  logLevel: "error", // Reduce log noise during tests
+  logFormat: "pretty",
+  ragieBaseUrl: "ragie_mcp_server_url",
+  refreshTokenTtl: 3600,
+  shutdownGracePeriod: 1,
+  signingKey: undefined,
+  tokenCacheMaxSize: 100,
+  workosApiKey: "workos_api_key",
+  workosAuthorizationServerUrl: "https://placeholder.authkit.app",
+  workosClientId: "workos_client_id",
+  workosCookiePassword: undefined,
+  workosWebhookSecret: undefined,
+  webhookPartitionTemplate: "{id}",
+  strictMapping: false,
+  tenantRouting: "path",
+  upstreamConnectTimeout: 5,
+  upstreamResponseTimeout: 5,
+  upstreamRetries: 2,
+  upstreamRetryDelay: 0.01,
+  masterKey: undefined,
+  mappingBackend: "file",
+  mappingFile: undefined,
+  mappingReloadInterval: 0,
+  mappingUrl: undefined,
+  mappingUrlToken: undefined,
+  mappingDatabaseUrl: undefined,
+  mappingTable: "organization_mappings",
+  mappingCacheTtl: 60,
+  metricsEnabled: false,
+  metricsPort: undefined,
+  metricsToken: undefined,
+  membershipCacheTtl: 60,
+  membershipCacheNegativeTtl: 10,
+  membershipCacheMaxSize: 100,
+  userRateLimit: { requestsPerMinute: 0 },
+  organizationRateLimit: { requestsPerMinute: 0 },
+  rateLimitRedisUrl: undefined,
+  auditLog: "none",
+  auditLogFile: "audit.log",
+  auditLogMaxSize: 1024,
+  auditLogMaxFiles: 1,
+  auditLogWebhookUrl: undefined,
+};
+
+const gatewayIssuerConfig: Config = {
+  ...config,
+  authorizationServer: "gateway",
+  clientRegistrationRedirectUris: ["http://localhost:*/callback"],
+};
+
+function mockRequest(organizationId: string, headers: Record<string, string> = {}) {
+  return { params: { organizationId }, headers } as unknown as Request<{ organizationId: string }>;
+}
+
+interface MockResponse {
+  locals: Record<string, unknown>;
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+  set: jest.Mock;
+  status: jest.Mock;
+  json: jest.Mock;
+}
+
+function mockResponse(): MockResponse {
+  const res: MockResponse = {
+    locals: {},
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    set: jest.fn((name: string | Record<string, string>, value?: string) => {
+      Object.assign(res.headers, typeof name === "string" ? { [name]: value } : name);
+      return res;
+    }),
+    status: jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: jest.fn((body: unknown) => {
+      res.body = body;
+      return res;
+    }),
+  };
+  return res;
+}
+
+// The key set that the last gateway created fetches and verifies tokens with
+function lastJwks(): { reload: jest.Mock } {
+  const results = jest.mocked(createRemoteJWKSet).mock.results;
+  return results[results.length - 1]?.value;
+}
+
+function mockWorkOS(memberships: { role: { slug: string } }[]) {
+  const listOrganizationMemberships = jest.fn().mockResolvedValue({ data: memberships });
+  const listOrganizationRoles = jest.fn().mockResolvedValue({
+    data: [{ slug: "member", permissions: ["mcp:read"] }],
+  });
+  const getUser = jest.fn().mockResolvedValue({ email: "jane@example.com" });
+  const getOrganization = jest.fn().mockResolvedValue({ name: "Acme Corp" });
+  return {
+    workos: {
+      userManagement: { listOrganizationMemberships, getUser },
+      organizations: { listOrganizationRoles, getOrganization },
+    } as unknown as WorkOS,
+    listOrganizationMemberships,
+    listOrganizationRoles,
+    getUser,
+    getOrganization,
+  };
+}
 
 describe("Gateway", () => {
   let gateway: Gateway;
 
   beforeEach(() => {
-    const mapperConfig: MapperConfig = {
-      ragieApiKey: "ragie_api_key",
-      strictApiKeys: false,
-    };
-    gateway = new Gateway(
-      {
-        ...mapperConfig,
-        baseUrl: "http://localhost:3000",
-        port: 3002,
-        logLevel: "error", // Reduce log noise during tests
-        logFormat: "pretty",
-        ragieBaseUrl: "ragie_mcp_server_url",
-        workosApiKey: "workos_api_key",
-        workosAuthorizationServerUrl: "https://placeholder.authkit.app",
-        workosClientId: "workos_client_id",
-        strictMapping: false,
-        mappingFile: undefined,
-      },
-      new DefaultMapper(mapperConfig, {})
-    );
+    gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}));
   });
 
+  // Lets fetch notice the keep-alive connections closed by a stopped gateway before the port is reused. Two turns of
+  // the event loop make sure that socket events are polled in between, which a timer does not guarantee under load.
+  async function settleConnections(): Promise<void> {
+    for (let turn = 0; turn < 2; turn++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  }
+
   afterEach(async () => {
     if (gateway.isActive()) {
       await gateway.stop();
     }
+    await settleConnections();
   });
 
   describe("lifecycle", () => {
@@ -57,5 +198,1423 @@ describe("Gateway", () => {
     it("should not stop if not running", async () => {
       await expect(gateway.stop()).resolves.not.toThrow();
     });
+
+    it("should fetch the WorkOS key set with the configured options before serving requests", async () => {
+      gateway = new Gateway({ ...config, jwksCooldown: 10, jwksCacheMaxAge: 120 }, new DefaultMapper(mapperConfig, {}));
+      const jwks = lastJwks();
+
+      await gateway.start();
+
+      expect(createRemoteJWKSet).toHaveBeenLastCalledWith(
+        new URL("https://placeholder.authkit.app/oauth2/jwks"),
+        expect.objectContaining({ cooldownDuration: 10_000, cacheMaxAge: 120_000 })
+      );
+      expect(jwks.reload).toHaveBeenCalledTimes(1);
+    });
+
+    it("should start without the key set when it is not pre-warmed or cannot be fetched", async () => {
+      gateway = new Gateway({ ...config, jwksPrewarm: false }, new DefaultMapper(mapperConfig, {}));
+      const jwks = lastJwks();
+      await gateway.start();
+      expect(jwks.reload).not.toHaveBeenCalled();
+      await gateway.stop();
+      await settleConnections();
+
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}));
+      lastJwks().reload.mockRejectedValue(new Error("fetch failed"));
+      await expect(gateway.start()).resolves.toBeUndefined();
+    });
+  });
+
+  describe("ensureMappingMiddleware", () => {
+    it("should return 404 for organizations without a mapping", async () => {
+      gateway = new Gateway(config, new StrictMapper(mapperConfig, { org1: { partition: "org1" } }));
+      const res = mockResponse();
+      const next = jest.fn() as NextFunction;
+
+      await gateway.ensureMappingMiddleware(mockRequest("org2"), res as unknown as Response, next);
+
+      expect(res.statusCode).toBe(404);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should return 503 when the mapping cannot be looked up", async () => {
+      const logger = { info: jest.fn(), error: jest.fn() } as unknown as winston.Logger;
+      const mapper = new HttpMapper(
+        "https://config.example.com/mapping",
+        json => DefaultMapper.parse(mapperConfig, json),
+        logger
+      );
+      gateway = new Gateway(config, mapper);
+      const res = mockResponse();
+      const next = jest.fn() as NextFunction;
+
+      await gateway.ensureMappingMiddleware(mockRequest("org1"), res as unknown as Response, next);
+
+      expect(res.statusCode).toBe(503);
+      expect(res.body).toEqual({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32007, message: "Organization mapping is unavailable." },
+      });
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tenantMiddleware", () => {
+    const mapper = new StrictMapper(mapperConfig, {
+      org1: { partition: "org1", slug: "acme" },
+      org2: { partition: "org2" },
+    });
+
+    it("should resolve slugs in the path to the organization ID", async () => {
+      gateway = new Gateway({ ...config, tenantRouting: "slug" }, mapper);
+      const bySlug = mockRequest("acme");
+      const byId = mockRequest("org2");
+      const res = mockResponse();
+      const next = jest.fn() as NextFunction;
+
+      await gateway.tenantMiddleware(bySlug, res as unknown as Response, next);
+      await gateway.tenantMiddleware(byId, mockResponse() as unknown as Response, next);
+
+      expect(bySlug.params.organizationId).toBe("org1");
+      expect(byId.params.organizationId).toBe("org2");
+      expect(res.locals["tenant"]).toEqual({ key: "acme", subdomain: false });
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only accept organization IDs in the path by default", async () => {
+      gateway = new Gateway(config, mapper);
+      const req = mockRequest("acme");
+      const next = jest.fn() as NextFunction;
+
+      await gateway.tenantMiddleware(req, mockResponse() as unknown as Response, next);
+
+      expect(req.params.organizationId).toBe("acme");
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should resolve subdomains of the base URL's host as slugs", async () => {
+      gateway = new Gateway({ ...config, tenantRouting: "subdomain" }, mapper);
+      const req = { params: {}, headers: {}, hostname: "Acme.localhost" } as unknown as Request<{
+        organizationId: string;
+      }>;
+      const unknown = { params: {}, headers: {}, hostname: "other.localhost" } as unknown as Request<{
+        organizationId: string;
+      }>;
+      const res = mockResponse();
+      const next = jest.fn() as NextFunction;
+
+      await gateway.tenantMiddleware(req, mockResponse() as unknown as Response, next);
+      await gateway.tenantMiddleware(unknown, res as unknown as Response, next);
+
+      expect(req.params.organizationId).toBe("org1");
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.statusCode).toBe(404);
+    });
+  });
+
+  describe("bearerTokenMiddleware", () => {
+    const authorization = { authorization: "Bearer token" };
+
+    it("should reject requests without a token", async () => {
+      const res = mockResponse();
+      const next = jest.fn() as NextFunction;
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1"), res as unknown as Response, next);
+
+      expect(res.statusCode).toBe(401);
+      expect(res.headers["WWW-Authenticate"]).toBe(
+        'Bearer error="unauthorized", error_description="Authorization needed", ' +
+          'resource_metadata="http://localhost:3000/.well-known/oauth-protected-resource/org1/mcp"'
+      );
+      expect(res.body).toEqual({ jsonrpc: "2.0", id: null, error: { code: -32004, message: "No token provided." } });
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it("should verify a repeated token once until it expires", async () => {
+      const { workos } = mockWorkOS([{ role: { slug: "member" } }]);
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}), { workos });
+      const exp = Math.floor(Date.now() / 1000) + 60;
+      (jwtVerify as jest.Mock).mockResolvedValue({ payload: { sub: "test-user-id", exp } });
+      const next = jest.fn() as NextFunction;
+      const calls = (jwtVerify as jest.Mock).mock.calls.length;
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+      await gateway.bearerTokenMiddleware(
+        mockRequest("org1", { authorization: "Bearer other" }),
+        mockResponse() as never,
+        next
+      );
+      expect(jwtVerify).toHaveBeenCalledTimes(calls + 2);
+
+      // The cached entry can outlive exp by the milliseconds that verification took, so step a whole second past it
+      jest.spyOn(Date, "now").mockReturnValue((exp + 1) * 1000);
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+      expect(jwtVerify).toHaveBeenCalledTimes(calls + 3);
+      expect(next).toHaveBeenCalledTimes(4);
+
+      jest.restoreAllMocks();
+      (jwtVerify as jest.Mock).mockResolvedValue({ payload: { sub: "test-user-id" } });
+    });
+
+    it("should cache membership lookups per user and organization", async () => {
+      const { workos, listOrganizationMemberships } = mockWorkOS([{ role: { slug: "member" } }]);
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}), { workos });
+      const next = jest.fn() as NextFunction;
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+      await gateway.bearerTokenMiddleware(mockRequest("org2", authorization), mockResponse() as never, next);
+
+      expect(next).toHaveBeenCalledTimes(3);
+      expect(listOrganizationMemberships).toHaveBeenCalledTimes(2);
+    });
+
+    it("should cache negative membership lookups", async () => {
+      const { workos, listOrganizationMemberships } = mockWorkOS([]);
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}), { workos });
+      const next = jest.fn() as NextFunction;
+
+      const first = mockResponse();
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), first as never, next);
+      const second = mockResponse();
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), second as never, next);
+
+      expect(first.statusCode).toBe(401);
+      expect(second.statusCode).toBe(401);
+      expect(next).not.toHaveBeenCalled();
+      expect(listOrganizationMemberships).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not cache memberships past the token expiry", async () => {
+      const { workos } = mockWorkOS([{ role: { slug: "member" } }]);
+      const membershipCache = new InMemoryMembershipCache(100);
+      const set = jest.spyOn(membershipCache, "set");
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}), { workos, membershipCache });
+      (jwtVerify as jest.Mock).mockResolvedValueOnce({
+        payload: { sub: "test-user-id", exp: Math.floor(Date.now() / 1000) + 5 },
+      });
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, jest.fn());
+
+      const ttlMs = set.mock.calls[0]?.[3];
+      expect(ttlMs).toBeLessThanOrEqual(5000);
+      expect(ttlMs).toBeGreaterThan(0);
+    });
+  });
+
+  describe("authorization mode", () => {
+    const authorization = { authorization: "Bearer token" };
+
+    it("should verify the token audience against the WorkOS client ID", async () => {
+      const { workos } = mockWorkOS([{ role: { slug: "member" } }]);
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}), { workos });
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, jest.fn());
+
+      expect(jwtVerify).toHaveBeenLastCalledWith("token", expect.anything(), {
+        issuer: config.workosAuthorizationServerUrl,
+        audience: config.workosClientId,
+      });
+    });
+
+    it("should verify gateway-issued tokens against the organization's MCP endpoint", async () => {
+      const { workos } = mockWorkOS([{ role: { slug: "member" } }]);
+      gateway = new Gateway(gatewayIssuerConfig, new DefaultMapper(mapperConfig, {}), { workos });
+      (jwtVerify as jest.Mock).mockResolvedValueOnce({ payload: { sub: "test-user-id", org_id: "org1" } });
+      const next = jest.fn();
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(jwtVerify).toHaveBeenLastCalledWith(
+        "token",
+        expect.anything(),
+        expect.objectContaining({
+          issuer: config.baseUrl,
+          audience: expect.arrayContaining(["http://localhost:3000/org1/mcp"]),
+          typ: "at+jwt",
+        })
+      );
+    });
+
+    it("should authorize from the org_id claim in claims mode", async () => {
+      const { workos, listOrganizationMemberships } = mockWorkOS([]);
+      gateway = new Gateway({ ...config, authorizationMode: "claims" }, new DefaultMapper(mapperConfig, {}), {
+        workos,
+      });
+      (jwtVerify as jest.Mock).mockResolvedValueOnce({ payload: { sub: "test-user-id", org_id: "org1" } });
+      const next = jest.fn();
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(listOrganizationMemberships).not.toHaveBeenCalled();
+    });
+
+    it("should stop trusting the claims of earlier tokens once the membership changes", async () => {
+      const { workos, listOrganizationMemberships } = mockWorkOS([]);
+      gateway = new Gateway({ ...config, authorizationMode: "claims" }, new DefaultMapper(mapperConfig, {}), {
+        workos,
+      });
+      const now = Math.floor(Date.now() / 1000);
+      const claims = { sub: "test-user-id", org_id: "org1", role: "admin", exp: now + 60 };
+      (jwtVerify as jest.Mock).mockResolvedValue({ payload: { ...claims, iat: now - 10 } });
+      const calls = (jwtVerify as jest.Mock).mock.calls.length;
+      const next = jest.fn();
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+      await gateway.invalidateMembership("test-user-id", "org1");
+      const res = mockResponse();
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), res as never, next);
+
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(res.statusCode).toBe(401);
+      expect(jwtVerify).toHaveBeenCalledTimes(calls + 2);
+      expect(listOrganizationMemberships).toHaveBeenCalledTimes(1);
+
+      (jwtVerify as jest.Mock).mockResolvedValue({ payload: { ...claims, iat: now + 1 } });
+      await gateway.bearerTokenMiddleware(
+        mockRequest("org1", { authorization: "Bearer new" }),
+        mockResponse() as never,
+        next
+      );
+      expect(next).toHaveBeenCalledTimes(2);
+      (jwtVerify as jest.Mock).mockResolvedValue({ payload: { sub: "test-user-id" } });
+    });
+
+    it("should look up memberships again once they change", async () => {
+      const { workos, listOrganizationMemberships } = mockWorkOS([{ role: { slug: "member" } }]);
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}), { workos });
+      const next = jest.fn();
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+      await gateway.invalidateMembership("test-user-id", "org1");
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+
+      expect(next).toHaveBeenCalledTimes(3);
+      expect(listOrganizationMemberships).toHaveBeenCalledTimes(2);
+    });
+
+    it("should fall back to the membership API when the org_id claim does not match", async () => {
+      const { workos, listOrganizationMemberships } = mockWorkOS([{ role: { slug: "member" } }]);
+      gateway = new Gateway({ ...config, authorizationMode: "claims" }, new DefaultMapper(mapperConfig, {}), {
+        workos,
+      });
+      (jwtVerify as jest.Mock).mockResolvedValueOnce({ payload: { sub: "test-user-id", org_id: "org2" } });
+      const next = jest.fn();
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), mockResponse() as never, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(listOrganizationMemberships).toHaveBeenCalledWith(expect.objectContaining({ organizationId: "org1" }));
+    });
+
+    it("should ignore the org_id claim in membership mode", async () => {
+      const { workos, listOrganizationMemberships } = mockWorkOS([]);
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, {}), { workos });
+      (jwtVerify as jest.Mock).mockResolvedValueOnce({ payload: { sub: "test-user-id", org_id: "org1" } });
+      const res = mockResponse();
+
+      await gateway.bearerTokenMiddleware(mockRequest("org1", authorization), res as never, jest.fn());
+
+      expect(res.statusCode).toBe(401);
+      expect(listOrganizationMemberships).toHaveBeenCalled();
+    });
+  });
+
+  describe("admin API", () => {
+    const adminConfig = { ...config, adminToken: "admin-secret-token", adminOrganizationId: "org_admin" };
+
+    it("should accept the static admin token", async () => {
+      gateway = new Gateway(adminConfig, new DefaultMapper(mapperConfig, {}));
+
+      expect(await gateway.authenticateAdmin("admin-secret-token")).toBe("admin-token");
+    });
+
+    it("should accept users with the admin role in the admin organization", async () => {
+      const { workos, listOrganizationMemberships } = mockWorkOS([{ role: { slug: "admin" } }]);
+      gateway = new Gateway(adminConfig, new DefaultMapper(mapperConfig, {}), { workos });
+
+      expect(await gateway.authenticateAdmin("token")).toBe("test-user-id");
+      expect(listOrganizationMemberships).toHaveBeenCalledWith(
+        expect.objectContaining({ organizationId: "org_admin" })
+      );
+    });
+
+    it("should reject members without the admin role", async () => {
+      const { workos } = mockWorkOS([{ role: { slug: "member" } }]);
+      gateway = new Gateway(adminConfig, new DefaultMapper(mapperConfig, {}), { workos });
+
+      expect(await gateway.authenticateAdmin("token")).toBeUndefined();
+    });
+
+    it("should only accept the static token without an admin organization", async () => {
+      gateway = new Gateway({ ...config, adminToken: "admin-secret-token" }, new DefaultMapper(mapperConfig, {}));
+
+      const calls = (jwtVerify as jest.Mock).mock.calls.length;
+
+      expect(await gateway.authenticateAdmin("token")).toBeUndefined();
+      expect(jwtVerify).toHaveBeenCalledTimes(calls);
+    });
+
+    it("should serve the admin API on its own port", async () => {
+      gateway = new Gateway({ ...adminConfig, adminPort: 3004 }, new DefaultMapper(mapperConfig, {}));
+      await gateway.start();
+
+      const response = await fetch("http://localhost:3004/admin/mappings", {
+        headers: { Authorization: "Bearer admin-secret-token" },
+      });
+      expect(response.status).toBe(501);
+      expect((await fetch("http://localhost:3002/admin/mappings")).status).toBe(404);
+    });
+  });
+
+  describe("access policies", () => {
+    const authorization = { authorization: "Bearer token" };
+
+    function createGateway(policy: object, authorizationMode: Config["authorizationMode"] = "membership") {
+      const mocks = mockWorkOS([{ role: { slug: "member" } }]);
+      const mapper = new DefaultMapper(mapperConfig, { org1: { partition: "partition1", policy } });
+      gateway = new Gateway({ ...config, authorizationMode }, mapper, { workos: mocks.workos });
+      return mocks;
+    }
+
+    async function authorize(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+      let authenticated = false;
+      await gateway.bearerTokenMiddleware(req, res, () => {
+        authenticated = true;
+      });
+      if (authenticated) {
+        await gateway.policyMiddleware(req, res, next);
+      }
+    }
+
+    it("should allow members whose role is allowed", async () => {
+      createGateway({ allowedRoles: ["member"] });
+      const next = jest.fn();
+
+      await authorize(mockRequest("org1", authorization), mockResponse() as never, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should return 403 when the membership role is not allowed", async () => {
+      createGateway({ allowedRoles: ["admin"] });
+      const res = mockResponse();
+      const next = jest.fn();
+
+      await authorize(mockRequest("org1", authorization), res as never, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(403);
+      expect(res.body).toEqual({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32005, message: "Role member is not allowed to access this organization." },
+      });
+    });
+
+    it("should use role and permission claims in claims mode", async () => {
+      const { listOrganizationRoles } = createGateway({ requiredPermissions: ["mcp:write"] }, "claims");
+      (jwtVerify as jest.Mock).mockResolvedValueOnce({
+        payload: { sub: "test-user-id", org_id: "org1", role: "admin", permissions: ["mcp:write"] },
+      });
+      const next = jest.fn();
+
+      await authorize(mockRequest("org1", authorization), mockResponse() as never, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(listOrganizationRoles).not.toHaveBeenCalled();
+    });
+
+    it("should resolve permissions from the membership role", async () => {
+      const { listOrganizationRoles } = createGateway({ requiredPermissions: ["mcp:write"] });
+      const res = mockResponse();
+
+      await authorize(mockRequest("org1", authorization), res as never, jest.fn());
+
+      expect(listOrganizationRoles).toHaveBeenCalledWith({ organizationId: "org1" });
+      expect(res.statusCode).toBe(403);
+      expect(res.body).toEqual({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32005, message: "Missing required permissions: mcp:write." },
+      });
+    });
+
+    it("should look up the user's email only for email domain policies", async () => {
+      const { getUser } = createGateway({ allowedEmailDomains: ["example.com"] });
+      const next = jest.fn();
+
+      await authorize(mockRequest("org1", authorization), mockResponse() as never, next);
+
+      expect(getUser).toHaveBeenCalledWith("test-user-id");
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe("rateLimitMiddleware", () => {
+    function rateLimitedGateway(overrides: object = {}) {
+      const mapper = new DefaultMapper(mapperConfig, { org1: { partition: "partition1", rateLimits: overrides } });
+      return new Gateway(
+        {
+          ...config,
+          userRateLimit: { requestsPerMinute: 60, burst: 2 },
+          organizationRateLimit: { requestsPerMinute: 600, burst: 10 },
+        },
+        mapper
+      );
+    }
+
+    async function send(organizationId: string, userId: string = "user1") {
+      const res = mockResponse();
+      res.locals = { userId };
+      const next = jest.fn();
+      await gateway.rateLimitMiddleware(mockRequest(organizationId), res as never, next);
+      return { res, next };
+    }
+
+    it("should set RateLimit headers for allowed requests", async () => {
+      gateway = rateLimitedGateway();
+
+      const { res, next } = await send("org1");
+
+      expect(next).toHaveBeenCalled();
+      expect(res.headers).toEqual({ "RateLimit-Limit": "2", "RateLimit-Remaining": "1", "RateLimit-Reset": "1" });
+    });
+
+    it("should reject requests over the user limit with 429 and Retry-After", async () => {
+      gateway = rateLimitedGateway();
+      await send("org1");
+      await send("org1");
+
+      const { res, next } = await send("org1");
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(429);
+      expect(res.headers["Retry-After"]).toBe("1");
+      expect(res.body).toEqual({ jsonrpc: "2.0", id: null, error: { code: -32008, message: "Too many requests." } });
+      expect((await send("org1", "user2")).next).toHaveBeenCalled();
+    });
+
+    it("should apply per-organization overrides from the mapping", async () => {
+      gateway = rateLimitedGateway({ organization: { requestsPerMinute: 60, burst: 1 } });
+      await send("org1", "user1");
+
+      const { res } = await send("org1", "user2");
+
+      expect(res.statusCode).toBe(429);
+    });
+
+    it("should allow requests when the rate limit store fails", async () => {
+      const rateLimitStore = { consume: jest.fn().mockRejectedValue(new Error("Connection refused")) };
+      gateway = new Gateway(
+        { ...config, userRateLimit: { requestsPerMinute: 60 } },
+        new DefaultMapper(mapperConfig, {}),
+        { rateLimitStore }
+      );
+
+      expect((await send("org1")).next).toHaveBeenCalled();
+    });
+
+    it("should not wait for an unreachable Redis server", async () => {
+      const redis = createRedisClient("redis://127.0.0.1:1");
+      redis.on("error", () => undefined);
+      gateway = new Gateway(
+        { ...config, userRateLimit: { requestsPerMinute: 60 } },
+        new DefaultMapper(mapperConfig, {}),
+        { rateLimitStore: new RedisRateLimitStore(redis) }
+      );
+
+      try {
+        const startedAt = Date.now();
+        expect((await send("org1")).next).toHaveBeenCalled();
+        expect(Date.now() - startedAt).toBeLessThan(1000);
+      } finally {
+        redis.disconnect();
+      }
+    });
+  });
+
+  describe("health endpoints", () => {
+    let upstream: Server;
+    let ragieBaseUrl: string;
+
+    beforeAll(async () => {
+      upstream = createServer((req, res) => res.end());
+      await new Promise<void>(resolve => upstream.listen(0, resolve));
+      ragieBaseUrl = `http://localhost:${(upstream.address() as AddressInfo).port}/`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => upstream.close(resolve));
+    });
+
+    it("should report liveness", async () => {
+      await gateway.start();
+
+      const response = await fetch(`http://localhost:${config.port}/healthz`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ status: "ok" });
+    });
+
+    it("should report readiness with a breakdown per check", async () => {
+      gateway = new Gateway({ ...config, ragieBaseUrl }, new DefaultMapper(mapperConfig, {}));
+      await gateway.start();
+
+      const response = await fetch(`http://localhost:${config.port}/readyz`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        status: "ok",
+        checks: {
+          draining: { status: "ok" },
+          mapping: { status: "ok" },
+          jwks: { status: "ok" },
+          upstream: { status: "ok" },
+        },
+      });
+    });
+
+    it("should fail readiness when the upstream is unreachable", async () => {
+      gateway = new Gateway({ ...config, ragieBaseUrl: "http://localhost:1/" }, new DefaultMapper(mapperConfig, {}));
+      await gateway.start();
+
+      const response = await fetch(`http://localhost:${config.port}/readyz`);
+      const report = (await response.json()) as ReadinessReport;
+
+      expect(response.status).toBe(503);
+      expect(report.status).toBe("fail");
+      expect(report.checks["upstream"]).toEqual({ status: "fail", message: "fetch failed" });
+    });
+
+    it("should give up on an upstream that does not respond", async () => {
+      let closed: Promise<void> | undefined;
+      const silent = createServer(req => {
+        closed = new Promise(resolve => req.socket.on("close", resolve));
+      });
+      await new Promise<void>(resolve => silent.listen(0, resolve));
+      const port = (silent.address() as AddressInfo).port;
+      gateway = new Gateway(
+        { ...config, ragieBaseUrl: `http://localhost:${port}/` },
+        new DefaultMapper(mapperConfig, {})
+      );
+      await gateway.start();
+
+      try {
+        const response = await fetch(`http://localhost:${config.port}/readyz`);
+
+        expect(((await response.json()) as ReadinessReport).checks["upstream"]?.status).toBe("fail");
+        await closed;
+      } finally {
+        silent.closeAllConnections();
+        await new Promise(resolve => silent.close(resolve));
+      }
+    });
+
+    it("should fail readiness until the mapping is loaded", async () => {
+      const mapper = new DefaultMapper(mapperConfig, {});
+      jest.spyOn(mapper, "isReady").mockReturnValue(false);
+      gateway = new Gateway({ ...config, ragieBaseUrl }, mapper);
+      await gateway.start();
+
+      const response = await fetch(`http://localhost:${config.port}/readyz`);
+
+      expect(response.status).toBe(503);
+      expect(((await response.json()) as ReadinessReport).checks["mapping"]).toEqual({
+        status: "fail",
+        message: "Mapping has not been loaded",
+      });
+    });
+  });
+
+  describe("metrics", () => {
+    const metricsConfig = { ...config, metricsEnabled: true, metricsToken: "metrics-token" };
+
+    async function scrape(port: number = config.port): Promise<string> {
+      const response = await fetch(`http://localhost:${port}/metrics`, {
+        headers: { authorization: "Bearer metrics-token" },
+      });
+      expect(response.headers.get("content-type")).toContain("text/plain");
+      return response.text();
+    }
+
+    it("should not serve metrics unless enabled", async () => {
+      await gateway.start();
+
+      const response = await fetch(`http://localhost:${config.port}/metrics`);
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should only serve metrics on the gateway port with the metrics token", async () => {
+      gateway = new Gateway({ ...metricsConfig, metricsToken: undefined }, new DefaultMapper(mapperConfig, {}));
+      await gateway.start();
+      expect((await fetch(`http://localhost:${config.port}/metrics`)).status).toBe(404);
+
+      await gateway.stop();
+      await settleConnections();
+      gateway = new Gateway(metricsConfig, new DefaultMapper(mapperConfig, {}));
+      await gateway.start();
+      const response = await fetch(`http://localhost:${config.port}/metrics`, {
+        headers: { authorization: "Bearer wrong-token" },
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toBe('Bearer realm="metrics"');
+      expect(await scrape()).toContain("mcp_gateway_requests_total");
+    });
+
+    it("should count requests and authentication failures", async () => {
+      gateway = new Gateway(metricsConfig, new DefaultMapper(mapperConfig, {}));
+      await gateway.start();
+
+      await fetch(`http://localhost:${config.port}/org1/mcp`, { method: "POST" });
+      const metrics = await scrape();
+
+      expect(metrics).toContain('mcp_gateway_auth_failures_total{reason="missing_token"} 1');
+      expect(metrics).toContain(
+        'mcp_gateway_requests_total{organization="unknown",route="/:organizationId/mcp",method="POST",status="401"} 1'
+      );
+    });
+
+    it("should record WorkOS call latency", async () => {
+      const { workos } = mockWorkOS([]);
+      gateway = new Gateway(metricsConfig, new DefaultMapper(mapperConfig, {}), { workos });
+      await gateway.start();
+
+      await gateway.bearerTokenMiddleware(
+        mockRequest("org1", { authorization: "Bearer token" }),
+        mockResponse() as never,
+        jest.fn()
+      );
+      const metrics = await scrape();
+
+      expect(metrics).toContain(
+        'mcp_gateway_workos_request_duration_seconds_count{operation="listOrganizationMemberships",outcome="success"} 1'
+      );
+      expect(metrics).toContain('mcp_gateway_auth_failures_total{reason="not_member"} 1');
+    });
+
+    it("should log and count audit events that could not be delivered", async () => {
+      const auditLogger = winston.createLogger({ silent: true });
+      gateway = new Gateway(metricsConfig, new DefaultMapper(mapperConfig, {}), { auditLogger });
+      await gateway.start();
+
+      auditLogger.emit("warn", new Error("Audit webhook responded with status 503"));
+
+      expect(await scrape()).toContain("mcp_gateway_audit_delivery_failures_total 1");
+    });
+
+    it("should serve metrics on a separate port when configured", async () => {
+      gateway = new Gateway(
+        { ...metricsConfig, metricsPort: 3003, metricsToken: undefined },
+        new DefaultMapper(mapperConfig, {})
+      );
+      await gateway.start();
+
+      expect((await fetch(`http://localhost:${config.port}/metrics`)).status).toBe(404);
+      expect(await (await fetch("http://localhost:3003/metrics")).text()).toContain("mcp_gateway_requests_total");
+    });
+  });
+
+  describe("OAuth discovery", () => {
+    const realFetch = global.fetch;
+    const issuer = config.workosAuthorizationServerUrl;
+    let metadataResponse: () => Promise<globalThis.Response>;
+
+    beforeEach(() => {
+      jest
+        .spyOn(global, "fetch")
+        .mockImplementation((input, init) =>
+          String(input).startsWith(issuer) ? metadataResponse() : realFetch(input, init)
+        );
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should serve cached authorization server metadata with the overrides applied", async () => {
+      metadataResponse = async () =>
+        new globalThis.Response(
+          JSON.stringify({
+            issuer,
+            authorization_endpoint: `${issuer}/oauth2/authorize`,
+            token_endpoint: `${issuer}/oauth2/token`,
+            response_types_supported: ["code"],
+            scopes_supported: ["openid", "profile", "email"],
+          }),
+          { headers: { "cache-control": "public, max-age=120" } }
+        );
+      gateway = new Gateway(
+        { ...config, authorizationServerMetadataOverrides: { scopes_supported: ["openid"] } },
+        new DefaultMapper(mapperConfig, {})
+      );
+      await gateway.start();
+
+      for (const document of ["oauth-authorization-server", "openid-configuration", "oauth-authorization-server"]) {
+        const response = await fetch(`http://localhost:${config.port}/.well-known/${document}`);
+        expect(response.status).toBe(200);
+        expect(response.headers.get("cache-control")).toBe("public, max-age=120");
+        expect(await response.json()).toMatchObject({ issuer, scopes_supported: ["openid"] });
+      }
+      expect(jest.mocked(fetch).mock.calls.filter(([input]) => String(input).startsWith(issuer))).toHaveLength(2);
+    });
+
+    it("should serve protected resource metadata for each organization's MCP endpoint", async () => {
+      const { workos, getOrganization } = mockWorkOS([]);
+      gateway = new Gateway(config, new StrictMapper(mapperConfig, { org1: { partition: "org1" } }), { workos });
+      await gateway.start();
+
+      const url = `http://localhost:${config.port}/.well-known/oauth-protected-resource/org1/mcp`;
+      for (let i = 0; i < 2; i++) {
+        const response = await fetch(url);
+        expect(await response.json()).toEqual({
+          resource: "http://localhost:3000/org1/mcp",
+          authorization_servers: [issuer],
+          bearer_methods_supported: ["header"],
+          scopes_supported: ["openid", "profile", "email", "offline_access"],
+          resource_name: "Ragie MCP (Acme Corp)",
+        });
+      }
+      expect(getOrganization).toHaveBeenCalledTimes(1);
+
+      const response = await fetch(`http://localhost:${config.port}/.well-known/oauth-protected-resource/org2/mcp`);
+      expect(response.status).toBe(404);
+    });
+
+    it("should only look up the names of organizations in the mapping", async () => {
+      const { workos, getOrganization } = mockWorkOS([]);
+      gateway = new Gateway(config, new DefaultMapper(mapperConfig, { org1: { partition: "org1" } }), { workos });
+      await gateway.start();
+
+      const metadataUrl = `http://localhost:${config.port}/.well-known/oauth-protected-resource`;
+      const unmapped = await fetch(`${metadataUrl}/org_random/mcp`);
+      expect(unmapped.status).toBe(200);
+      expect(await unmapped.json()).toMatchObject({ resource_name: "Ragie MCP (org_random)" });
+      expect(getOrganization).not.toHaveBeenCalled();
+
+      expect(await (await fetch(`${metadataUrl}/org1/mcp`)).json()).toMatchObject({
+        resource_name: "Ragie MCP (Acme Corp)",
+      });
+      expect(getOrganization).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report the slug URL that clients connect to with slug routing", async () => {
+      const { workos } = mockWorkOS([]);
+      const mapper = new StrictMapper(mapperConfig, { org1: { partition: "org1", slug: "acme" } });
+      gateway = new Gateway({ ...config, tenantRouting: "slug" }, mapper, { workos });
+      await gateway.start();
+
+      const metadata = await fetch(`http://localhost:${config.port}/.well-known/oauth-protected-resource/acme/mcp`);
+      const challenge = await fetch(`http://localhost:${config.port}/acme/mcp`, { method: "POST" });
+
+      expect(await metadata.json()).toMatchObject({ resource: "http://localhost:3000/acme/mcp" });
+      expect(challenge.status).toBe(401);
+      expect(challenge.headers.get("www-authenticate")).toContain(
+        'resource_metadata="http://localhost:3000/.well-known/oauth-protected-resource/acme/mcp"'
+      );
+    });
+
+    it("should advertise the gateway's registration endpoint when client registration is enabled", async () => {
+      metadataResponse = async () =>
+        new globalThis.Response(
+          JSON.stringify({
+            issuer,
+            authorization_endpoint: `${issuer}/oauth2/authorize`,
+            token_endpoint: `${issuer}/oauth2/token`,
+            registration_endpoint: `${issuer}/oauth2/register`,
+            response_types_supported: ["code"],
+          })
+        );
+      gateway = new Gateway(
+        { ...config, clientRegistration: "static", clientRegistrationRedirectUris: ["http://localhost:*/callback"] },
+        new DefaultMapper(mapperConfig, {})
+      );
+      await gateway.start();
+
+      const response = await fetch(`http://localhost:${config.port}/.well-known/oauth-authorization-server`);
+      const metadata = (await response.json()) as { registration_endpoint?: string };
+      const registration = await fetch(`http://localhost:${config.port}/oauth/register`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ redirect_uris: ["http://localhost:1234/callback"] }),
+      });
+
+      expect(metadata.registration_endpoint).toBe("http://localhost:3000/oauth/register");
+      expect(registration.status).toBe(201);
+      expect(await registration.json()).toMatchObject({ client_id: "workos_client_id" });
+    });
+
+    it("should describe the gateway's own endpoints when it is the authorization server", async () => {
+      const { workos } = mockWorkOS([]);
+      gateway = new Gateway(gatewayIssuerConfig, new StrictMapper(mapperConfig, { org1: { partition: "org1" } }), {
+        workos,
+      });
+      await gateway.start();
+
+      const response = await fetch(`http://localhost:${config.port}/.well-known/oauth-authorization-server`);
+      const resource = await fetch(`http://localhost:${config.port}/.well-known/oauth-protected-resource/org1/mcp`);
+      const jwks = await fetch(`http://localhost:${config.port}/.well-known/jwks.json`);
+
+      expect(await response.json()).toMatchObject({
+        issuer: "http://localhost:3000",
+        authorization_endpoint: "http://localhost:3000/authorize",
+        token_endpoint: "http://localhost:3000/token",
+        jwks_uri: "http://localhost:3000/.well-known/jwks.json",
+        code_challenge_methods_supported: ["S256"],
+      });
+      expect(await resource.json()).toMatchObject({ authorization_servers: ["http://localhost:3000"] });
+      expect(jwks.status).toBe(200);
+      expect(jest.mocked(fetch).mock.calls.filter(([input]) => String(input).startsWith(issuer))).toHaveLength(0);
+    });
+
+    it("should answer with 502 when no metadata could be fetched", async () => {
+      metadataResponse = async () => new globalThis.Response("Bad gateway", { status: 502 });
+      await gateway.start();
+
+      const response = await fetch(`http://localhost:${config.port}/.well-known/oauth-authorization-server`);
+
+      expect(response.status).toBe(502);
+      expect(await response.json()).toEqual({ error: "Authorization server metadata is unavailable." });
+    });
+  });
+
+  describe("MCP route", () => {
+    let upstream: Server;
+    let upstreamRequests: IncomingMessage[];
+    let upstreamHandler: RequestListener;
+    let auditLog: jest.Mock;
+    const gatewayUrl = `http://localhost:${config.port}/org1/mcp`;
+    const headers = { authorization: "Bearer token", "mcp-session-id": "session-1" };
+
+    beforeAll(async () => {
+      upstream = createServer((req, res) => {
+        upstreamRequests.push(req);
+        upstreamHandler(req, res);
+      });
+      await new Promise<void>(resolve => upstream.listen(0, resolve));
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => upstream.close(resolve));
+    });
+
+    beforeEach(async () => {
+      upstreamRequests = [];
+      const { workos } = mockWorkOS([{ role: { slug: "member" } }]);
+      const ragieBaseUrl = `http://localhost:${(upstream.address() as AddressInfo).port}/`;
+      const mapper = new DefaultMapper(mapperConfig, {
+        org2: { partition: "org2", allowedTools: ["search", "fetch"], deniedTools: ["fetch"] },
+        org3: {
+          partition: "tenant3",
+          apiKey: "org3_api_key",
+          upstream: { url: `${ragieBaseUrl}eu`, pathTemplate: "/tenants/{partition}/mcp" },
+        },
+        org4: { partition: "org4", policy: { allowedRoles: ["admin"] } },
+        org5: { partition: "org5", rateLimits: { organization: { requestsPerMinute: 1, burst: 1 } } },
+      });
+      auditLog = jest.fn();
+      const auditLogger = { info: auditLog, on: jest.fn() } as unknown as winston.Logger;
+      gateway = new Gateway({ ...config, ragieBaseUrl }, mapper, { workos, auditLogger });
+      await gateway.start();
+    });
+
+    it("should proxy POST requests and pass session headers in both directions", async () => {
+      upstreamHandler = (req, res) => {
+        res.setHeader("Mcp-Session-Id", "session-1");
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: 1, result: {} }));
+      };
+
+      const response = await fetch(gatewayUrl, { method: "POST", headers, body: "{}" });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("mcp-session-id")).toBe("session-1");
+      expect(upstreamRequests[0]?.url).toBe("/mcp/org1/");
+      expect(upstreamRequests[0]?.headers["mcp-session-id"]).toBe("session-1");
+      expect(upstreamRequests[0]?.headers["authorization"]).toBe("Bearer ragie_api_key");
+    });
+
+    it("should proxy to the organization's own upstream with its API key", async () => {
+      upstreamHandler = (_req, res) => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: 1, result: {} }));
+      };
+
+      const response = await fetch(`http://localhost:${config.port}/org3/mcp`, { method: "POST", headers, body: "{}" });
+
+      expect(response.status).toBe(200);
+      expect(upstreamRequests[0]?.url).toBe("/eu/tenants/tenant3/mcp");
+      expect(upstreamRequests[0]?.headers["authorization"]).toBe("Bearer org3_api_key");
+    });
+
+    it("should stream server-sent events for GET requests without buffering", async () => {
+      let endStream = () => {};
+      upstreamHandler = (req, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write("data: first\n\n");
+        endStream = () => res.end();
+      };
+
+      const response = await fetch(gatewayUrl, { method: "GET", headers });
+      const reader = response.body!.getReader();
+      const { value } = await reader.read();
+
+      expect(response.headers.get("x-accel-buffering")).toBe("no");
+      expect(new TextDecoder().decode(value)).toBe("data: first\n\n");
+      expect(upstreamRequests[0]?.method).toBe("GET");
+
+      endStream();
+      while (!(await reader.read()).done);
+    });
+
+    it("should proxy DELETE requests to end a session", async () => {
+      upstreamHandler = (req, res) => {
+        res.statusCode = 204;
+        res.end();
+      };
+
+      const response = await fetch(gatewayUrl, { method: "DELETE", headers });
+
+      expect(response.status).toBe(204);
+      expect(upstreamRequests[0]?.method).toBe("DELETE");
+      expect(upstreamRequests[0]?.headers["mcp-session-id"]).toBe("session-1");
+    });
+
+    describe("audit log", () => {
+      async function nextAuditEvent() {
+        while (auditLog.mock.calls.length === 0) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        return auditLog.mock.calls[0]?.[1];
+      }
+
+      it("should record an audit event for proxied MCP calls", async () => {
+        upstreamHandler = (req, res) => {
+          res.statusCode = 200;
+          res.end("{}");
+        };
+        const call = { jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "search" } };
+
+        await fetch(gatewayUrl, {
+          method: "POST",
+          headers: { ...headers, "content-type": "application/json" },
+          body: JSON.stringify(call),
+        });
+
+        expect(await nextAuditEvent()).toEqual({
+          userId: "test-user-id",
+          organizationId: "org1",
+          partition: "org1",
+          apiKeyFingerprint: fingerprintApiKey("ragie_api_key"),
+          httpMethod: "POST",
+          mcpMethods: ["tools/call"],
+          toolNames: ["search"],
+          status: 200,
+          upstreamStatus: 200,
+          durationMs: expect.any(Number),
+          completed: true,
+        });
+      });
+
+      it("should record requests rejected by the gateway", async () => {
+        await fetch(gatewayUrl, { method: "POST" });
+
+        expect(await nextAuditEvent()).toMatchObject({
+          userId: undefined,
+          organizationId: "org1",
+          status: 401,
+          upstreamStatus: undefined,
+        });
+      });
+    });
+
+    describe("tool filtering", () => {
+      const toolsUrl = `http://localhost:${config.port}/org2/mcp`;
+      const jsonHeaders = { ...headers, "content-type": "application/json" };
+      const tools = { tools: [{ name: "search" }, { name: "fetch" }, { name: "delete" }] };
+
+      function readBody(req: IncomingMessage): Promise<unknown> {
+        return new Promise(resolve => {
+          const chunks: Buffer[] = [];
+          req.on("data", chunk => chunks.push(chunk));
+          req.on("end", () => resolve(JSON.parse(Buffer.concat(chunks).toString())));
+        });
+      }
+
+      it("should forward allowed tool calls", async () => {
+        upstreamHandler = async (req, res) => {
+          const body = await readBody(req);
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ jsonrpc: "2.0", id: 1, result: { echo: body } }));
+        };
+        const call = { jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "search" } };
+
+        const response = await fetch(toolsUrl, { method: "POST", headers: jsonHeaders, body: JSON.stringify(call) });
+
+        expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 1, result: { echo: call } });
+      });
+
+      it("should answer denied tool calls with a JSON-RPC error", async () => {
+        const call = { jsonrpc: "2.0", id: 7, method: "tools/call", params: { name: "fetch" } };
+
+        const response = await fetch(toolsUrl, { method: "POST", headers: jsonHeaders, body: JSON.stringify(call) });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+          jsonrpc: "2.0",
+          id: 7,
+          error: { code: -32003, message: "Tool fetch is not allowed." },
+        });
+        expect(upstreamRequests).toHaveLength(0);
+      });
+
+      it("should reject bodies that are not sent as JSON", async () => {
+        const call = { jsonrpc: "2.0", id: 7, method: "tools/call", params: { name: "fetch" } };
+
+        const response = await fetch(toolsUrl, {
+          method: "POST",
+          headers: { ...headers, "content-type": "text/plain" },
+          body: JSON.stringify(call),
+        });
+
+        expect(response.status).toBe(415);
+        expect(await response.json()).toEqual({
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: -32600, message: "Content type must be application/json." },
+        });
+        expect(upstreamRequests).toHaveLength(0);
+      });
+
+      it("should reject batches with malformed messages", async () => {
+        const batch = [{ jsonrpc: "2.0", id: 7, method: "tools/call", params: { name: "fetch" } }, { id: 8 }];
+
+        const response = await fetch(toolsUrl, { method: "POST", headers: jsonHeaders, body: JSON.stringify(batch) });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: -32600, message: "Invalid request." },
+        });
+        expect(upstreamRequests).toHaveLength(0);
+      });
+
+      it("should filter hidden tools from JSON tools/list responses", async () => {
+        upstreamHandler = (req, res) => {
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ jsonrpc: "2.0", id: 2, result: tools }));
+        };
+        const list = { jsonrpc: "2.0", id: 2, method: "tools/list" };
+
+        const response = await fetch(toolsUrl, { method: "POST", headers: jsonHeaders, body: JSON.stringify(list) });
+
+        expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 2, result: { tools: [{ name: "search" }] } });
+      });
+
+      it("should filter hidden tools from streamed tools/list responses", async () => {
+        upstreamHandler = (req, res) => {
+          res.writeHead(200, { "Content-Type": "text/event-stream" });
+          res.end(`event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: 3, result: tools })}\n\n`);
+        };
+        const list = { jsonrpc: "2.0", id: 3, method: "tools/list" };
+
+        const response = await fetch(toolsUrl, { method: "POST", headers: jsonHeaders, body: JSON.stringify(list) });
+
+        expect(await response.text()).toBe(
+          `event: message\ndata: ${JSON.stringify({ jsonrpc: "2.0", id: 3, result: { tools: [{ name: "search" }] } })}\n\n`
+        );
+      });
+
+      it("should forward the allowed part of a batch and merge in errors for denied calls", async () => {
+        let forwardedBody: unknown;
+        upstreamHandler = async (req, res) => {
+          forwardedBody = await readBody(req);
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify([{ jsonrpc: "2.0", id: 1, result: {} }]));
+        };
+        const batch = [
+          { jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "search" } },
+          { jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "delete" } },
+        ];
+
+        const response = await fetch(toolsUrl, { method: "POST", headers: jsonHeaders, body: JSON.stringify(batch) });
+
+        expect(forwardedBody).toEqual([batch[0]]);
+        expect(await response.json()).toEqual([
+          { jsonrpc: "2.0", id: 1, result: {} },
+          { jsonrpc: "2.0", id: 2, error: { code: -32003, message: "Tool delete is not allowed." } },
+        ]);
+      });
+    });
+
+    describe("error responses", () => {
+      const jsonHeaders = { ...headers, "content-type": "application/json" };
+
+      it("should answer unauthenticated requests without parsing their bodies", async () => {
+        const batch = [
+          { jsonrpc: "2.0", id: 1, method: "tools/list" },
+          { jsonrpc: "2.0", method: "notifications/initialized" },
+          { jsonrpc: "2.0", id: "two", method: "ping" },
+        ];
+
+        const response = await fetch(gatewayUrl, {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify(batch),
+        });
+
+        expect(response.status).toBe(401);
+        expect(response.headers.get("www-authenticate")).toContain('resource_metadata="http://localhost:3000/');
+        expect(await response.json()).toEqual({
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: -32004, message: "No token provided." },
+        });
+      });
+
+      it("should answer authenticated requests that are rejected with errors carrying the request IDs", async () => {
+        upstreamHandler = (_req, res) => res.end();
+        const batch = [
+          { jsonrpc: "2.0", id: 1, method: "tools/list" },
+          { jsonrpc: "2.0", method: "notifications/initialized" },
+          { jsonrpc: "2.0", id: "two", method: "ping" },
+        ];
+        const send = (organizationId: string) =>
+          fetch(`http://localhost:${config.port}/${organizationId}/mcp`, {
+            method: "POST",
+            headers: jsonHeaders,
+            body: JSON.stringify(batch),
+          });
+
+        const denied = await send("org4");
+        expect(denied.status).toBe(403);
+        expect(await denied.json()).toEqual([
+          { jsonrpc: "2.0", id: 1, error: { code: -32005, message: expect.any(String) } },
+          { jsonrpc: "2.0", id: "two", error: { code: -32005, message: expect.any(String) } },
+        ]);
+
+        await send("org5");
+        const limited = await send("org5");
+        expect(limited.status).toBe(429);
+        expect(await limited.json()).toEqual([
+          { jsonrpc: "2.0", id: 1, error: { code: -32008, message: "Too many requests." } },
+          { jsonrpc: "2.0", id: "two", error: { code: -32008, message: "Too many requests." } },
+        ]);
+      });
+
+      it("should answer malformed bodies with a parse error", async () => {
+        const response = await fetch(gatewayUrl, { method: "POST", headers: jsonHeaders, body: "{" });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+          jsonrpc: "2.0",
+          id: null,
+          error: { code: -32700, message: "Parse error." },
+        });
+        expect(upstreamRequests).toHaveLength(0);
+      });
+
+      it("should answer failed mapping lookups with an internal error", async () => {
+        const getApiKey = jest.spyOn(DefaultMapper.prototype, "getApiKey").mockImplementationOnce(() => {
+          throw new Error("Database is down");
+        });
+
+        const response = await fetch(gatewayUrl, {
+          method: "POST",
+          headers: jsonHeaders,
+          body: JSON.stringify({ jsonrpc: "2.0", id: 9, method: "tools/list" }),
+        });
+        getApiKey.mockRestore();
+
+        expect(response.status).toBe(500);
+        expect(await response.json()).toEqual({
+          jsonrpc: "2.0",
+          id: 9,
+          error: { code: -32603, message: "Internal error." },
+        });
+        expect(upstreamRequests).toHaveLength(0);
+      });
+    });
+
+    describe("upstream failures", () => {
+      const jsonHeaders = { ...headers, "content-type": "application/json" };
+
+      async function restartGateway(overrides: Partial<Config>) {
+        await gateway.stop();
+        await settleConnections();
+        const ragieBaseUrl = `http://localhost:${(upstream.address() as AddressInfo).port}/`;
+        const { workos } = mockWorkOS([{ role: { slug: "member" } }]);
+        gateway = new Gateway(
+          { ...config, ragieBaseUrl, metricsEnabled: true, metricsToken: "metrics-token", ...overrides },
+          new DefaultMapper(mapperConfig, {}),
+          { workos }
+        );
+        await gateway.start();
+      }
+
+      async function post(message: object) {
+        return fetch(gatewayUrl, { method: "POST", headers: jsonHeaders, body: JSON.stringify(message) });
+      }
+
+      it("should retry safe methods after connection errors", async () => {
+        await restartGateway({});
+        upstreamHandler = (req, res) => {
+          if (upstreamRequests.length === 1) {
+            req.socket.destroy();
+            return;
+          }
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ jsonrpc: "2.0", id: 1, result: { tools: [] } }));
+        };
+
+        const response = await post({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ jsonrpc: "2.0", id: 1, result: { tools: [] } });
+        expect(upstreamRequests).toHaveLength(2);
+        const metrics = await (
+          await fetch(`http://localhost:${config.port}/metrics`, { headers: { authorization: "Bearer metrics-token" } })
+        ).text();
+        expect(metrics).toContain('mcp_gateway_upstream_retries_total{organization="org1"} 1');
+      });
+
+      it("should not retry tool calls and answer with a JSON-RPC error", async () => {
+        await restartGateway({});
+        upstreamHandler = req => req.socket.destroy();
+
+        const response = await post({ jsonrpc: "2.0", id: 5, method: "tools/call", params: { name: "search" } });
+
+        expect(response.status).toBe(502);
+        expect(await response.json()).toEqual({
+          jsonrpc: "2.0",
+          id: 5,
+          error: { code: -32001, message: "Upstream is unavailable." },
+        });
+        expect(upstreamRequests).toHaveLength(1);
+      });
+
+      it("should time out upstreams that do not respond", async () => {
+        await restartGateway({ upstreamResponseTimeout: 0.1 });
+        upstreamHandler = () => {};
+
+        const response = await post([{ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "search" } }]);
+
+        expect(response.status).toBe(504);
+        expect(await response.json()).toEqual([
+          { jsonrpc: "2.0", id: 1, error: { code: -32002, message: "Upstream timed out." } },
+        ]);
+      });
+
+      it("should fail fast while the circuit breaker is open", async () => {
+        await restartGateway({ circuitBreakerThreshold: 2 });
+        upstreamHandler = (_req, res) => {
+          res.statusCode = 500;
+          res.end();
+        };
+
+        expect((await post({ jsonrpc: "2.0", id: 1, method: "ping" })).status).toBe(500);
+        expect((await post({ jsonrpc: "2.0", id: 2, method: "ping" })).status).toBe(500);
+        const response = await post({ jsonrpc: "2.0", id: 3, method: "ping" });
+
+        expect(response.status).toBe(503);
+        expect(response.headers.get("retry-after")).toBe("30");
+        expect(await response.json()).toEqual({
+          jsonrpc: "2.0",
+          id: 3,
+          error: { code: -32001, message: "Upstream is temporarily unavailable." },
+        });
+        expect(upstreamRequests).toHaveLength(2);
+        const host = `localhost:${(upstream.address() as AddressInfo).port}`;
+        const metrics = await (
+          await fetch(`http://localhost:${config.port}/metrics`, { headers: { authorization: "Bearer metrics-token" } })
+        ).text();
+        expect(metrics).toContain(`mcp_gateway_circuit_breaker_state{upstream="${host}"} 2`);
+        expect(metrics).toContain(`mcp_gateway_circuit_breaker_transitions_total{upstream="${host}",state="open"} 1`);
+      });
+    });
+
+    describe("shutdown", () => {
+      function recordLifecycle(): string[] {
+        const events: string[] = [];
+        for (const event of ["draining", "drained", "forceClosed", "stopped"]) {
+          gateway.on(event, () => events.push(event));
+        }
+        return events;
+      }
+
+      it("should turn new requests away and let in-flight requests finish", async () => {
+        let respond = () => {};
+        const received = new Promise<void>(resolve => {
+          upstreamHandler = (req, res) => {
+            // The readiness check probes the upstream as well
+            if (req.method === "HEAD") {
+              res.end();
+              return;
+            }
+            respond = () => res.end(JSON.stringify({ jsonrpc: "2.0", id: 1, result: {} }));
+            resolve();
+          };
+        });
+        const events = recordLifecycle();
+
+        const pending = fetch(gatewayUrl, { method: "POST", headers, body: "{}" });
+        await received;
+        const stopped = gateway.stop();
+
+        const rejected = mockResponse();
+        const next = jest.fn();
+        gateway.drainMiddleware(mockRequest("org1"), rejected as unknown as Response, next);
+        expect(rejected.statusCode).toBe(503);
+        expect(next).not.toHaveBeenCalled();
+
+        const readiness = mockResponse();
+        await gateway.readinessHandler(mockRequest("org1"), readiness as unknown as Response);
+        expect(readiness.statusCode).toBe(503);
+        expect((readiness.body as ReadinessReport).checks["draining"]).toEqual({
+          status: "fail",
+          message: "Gateway is shutting down",
+        });
+
+        respond();
+        const response = await pending;
+        await stopped;
+
+        expect(response.status).toBe(200);
+        expect(events).toEqual(["draining", "drained", "stopped"]);
+      });
+
+      it("should close streams still open after the grace period", async () => {
+        upstreamHandler = (req, res) => {
+          res.writeHead(200, { "Content-Type": "text/event-stream" });
+          res.write("data: first\n\n");
+        };
+        const events = recordLifecycle();
+
+        const response = await fetch(gatewayUrl, { method: "GET", headers });
+        const reader = response.body!.getReader();
+        await reader.read();
+        await gateway.stop();
+
+        await expect(reader.read()).resolves.toMatchObject({ done: true });
+        expect(events).toEqual(["draining", "forceClosed", "stopped"]);
+      });
+    });
+
+    it("should require a bearer token for every method", async () => {
+      for (const method of ["POST", "GET", "DELETE"]) {
+        const response = await fetch(gatewayUrl, { method });
+        expect(response.status).toBe(401);
+      }
+      expect(upstreamRequests).toHaveLength(0);
+    });
   });
 });
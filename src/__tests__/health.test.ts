@@ -0,0 +1,33 @@
+/**
+ * Tests for readiness checks
+ */
+
+import { runReadinessChecks } from "../health.js";
+
+describe("runReadinessChecks", () => {
+  it("should pass when every check passes", async () => {
+    const report = await runReadinessChecks({ a: async () => {}, b: async () => {} }, 100);
+    expect(report).toEqual({ status: "ok", checks: { a: { status: "ok" }, b: { status: "ok" } } });
+  });
+
+  it("should fail with the reason of each failing check", async () => {
+    const report = await runReadinessChecks(
+      {
+        a: async () => {},
+        b: async () => {
+          throw new Error("Broken");
+        },
+      },
+      100
+    );
+    expect(report).toEqual({
+      status: "fail",
+      checks: { a: { status: "ok" }, b: { status: "fail", message: "Broken" } },
+    });
+  });
+
+  it("should fail checks that do not finish in time", async () => {
+    const report = await runReadinessChecks({ slow: () => new Promise(() => {}) }, 10);
+    expect(report.checks["slow"]).toEqual({ status: "fail", message: "Timed out after 10ms" });
+  });
+});
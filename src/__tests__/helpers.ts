@@ -0,0 +1,10 @@
+/**
+ * Shared helpers for the tests
+ */
+
+import type winston from "winston";
+
+// Logger whose methods record their calls instead of writing anything
+export function createMockLogger(): winston.Logger {
+  return { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() } as unknown as winston.Logger;
+}
@@ -4,15 +4,20 @@
 
 import { readFileSync } from "fs";
 import { resolve } from "path";
-import { DefaultMapper, StrictMapper } from "../mapping.js";
+import type winston from "winston";
+import { DefaultMapper, HttpMapper, ReloadableMapper, SqlMapper, StrictMapper } from "../mapping.js";
+import { encryptSecret } from "../secrets.js";
+import { SqliteClient } from "../sql.js";
 
 // Mock fs module
 jest.mock("fs", () => ({
+  ...jest.requireActual("fs"),
   readFileSync: jest.fn(),
 }));
 
 // Mock path module
 jest.mock("path", () => ({
+  ...jest.requireActual("path"),
   resolve: jest.fn(path => path),
 }));
 
@@ -44,6 +49,14 @@ describe("DefaultMapper", () => {
     });
   });
 
+  describe("hasEntry", () => {
+    it("should only return true for organizations in the mapping", () => {
+      const mapper = new DefaultMapper(mockConfig, { org1: { partition: "partition1" } });
+      expect(mapper.hasEntry("org1")).toBe(true);
+      expect(mapper.hasEntry("org2")).toBe(false);
+    });
+  });
+
   describe("getPartition", () => {
     it("should return partition when organization exists", () => {
       const mapping = {
@@ -167,6 +180,125 @@ describe("DefaultMapper", () => {
 
       expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).toThrow();
     });
+
+    it("should load access policies", () => {
+      const mockMapping = {
+        org1: { partition: "partition1", policy: { allowedRoles: ["admin"], requiredPermissions: ["mcp:read"] } },
+      };
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockMapping));
+
+      const mapper = DefaultMapper.load(mockConfig, "/path/to/mapping.json");
+
+      expect(mapper.getPolicy("org1")).toEqual({ allowedRoles: ["admin"], requiredPermissions: ["mcp:read"] });
+      expect(mapper.getPolicy("org2")).toBeUndefined();
+    });
+
+    it("should resolve API keys given as secret references or encrypted values", () => {
+      const masterKey = Buffer.alloc(32, 1).toString("base64");
+      process.env["TEST_ORG2_API_KEY"] = "tnt_org2";
+      const mockMapping = {
+        org1: { partition: "partition1", apiKey: encryptSecret("tnt_org1", masterKey) },
+        org2: { partition: "partition2", apiKey: "env:TEST_ORG2_API_KEY" },
+      };
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockMapping));
+
+      const mapper = DefaultMapper.load({ ...mockConfig, masterKey }, "/path/to/mapping.json");
+      delete process.env["TEST_ORG2_API_KEY"];
+
+      expect(mapper.getApiKey("org1")).toBe("tnt_org1");
+      expect(mapper.getApiKey("org2")).toBe("tnt_org2");
+    });
+
+    it("should reject API key references that cannot be resolved", () => {
+      const mockMapping = {
+        org1: { partition: "partition1", apiKey: encryptSecret("tnt_org1", Buffer.alloc(32, 1).toString("base64")) },
+      };
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockMapping));
+
+      expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).toThrow(
+        "Encrypted value requires a master key"
+      );
+    });
+
+    it("should not include the file contents in JSON syntax errors", () => {
+      (readFileSync as jest.Mock).mockReturnValue("tnt_plaintext_key");
+
+      expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).toThrow(
+        "Failed to read JSON file: SyntaxError: Invalid JSON"
+      );
+      expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).not.toThrow("tnt_plaintext_key");
+    });
+
+    it("should load per-organization upstreams", () => {
+      const mockMapping = {
+        org1: {
+          partition: "partition1",
+          apiKey: "key1",
+          upstream: { url: "https://mcp.eu.example.com", pathTemplate: "/tenants/{partition}/mcp" },
+        },
+      };
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockMapping));
+
+      const mapper = DefaultMapper.load(mockConfig, "/path/to/mapping.json");
+
+      expect(mapper.getUpstream("org1")).toEqual(mockMapping.org1.upstream);
+      expect(mapper.getUpstream("org2")).toBeUndefined();
+    });
+
+    it("should require an API key for organizations with their own upstream", () => {
+      const mockMapping = {
+        org1: { partition: "partition1", upstream: { url: "https://mcp.eu.example.com" } },
+      };
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockMapping));
+
+      expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).toThrow(
+        "An apiKey is required when upstream is set"
+      );
+    });
+
+    it("should reject upstreams that are not HTTP URLs", () => {
+      const mockMapping = {
+        org1: { partition: "partition1", apiKey: "key1", upstream: { url: "file:///etc/passwd" } },
+      };
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockMapping));
+
+      expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).toThrow();
+    });
+
+    it("should resolve slugs to organizations", () => {
+      const mockMapping = { org1: { partition: "partition1", slug: "acme" }, org2: { partition: "partition2" } };
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify(mockMapping));
+
+      const mapper = DefaultMapper.load(mockConfig, "/path/to/mapping.json");
+
+      expect(mapper.resolveSlug("acme")).toBe("org1");
+      expect(mapper.resolveSlug("org1")).toBeUndefined();
+      expect(mapper.getSlug("org1")).toBe("acme");
+      expect(mapper.getSlug("org2")).toBeUndefined();
+    });
+
+    it("should reject slugs that are not DNS labels or are used twice", () => {
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ org1: { partition: "p1", slug: "Acme_Corp" } }));
+      expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).toThrow(
+        "Slug must contain only lowercase letters, digits and hyphens"
+      );
+
+      (readFileSync as jest.Mock).mockReturnValue(
+        JSON.stringify({ org1: { partition: "p1", slug: "acme" }, org2: { partition: "p2", slug: "acme" } })
+      );
+      expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).toThrow(
+        "Slug acme is also used by organization org1"
+      );
+    });
+
+    it("should throw error when an access policy is invalid", () => {
+      const invalidMapping = {
+        org1: { partition: "partition1", policy: { allowedRoles: "admin" } },
+      };
+      (readFileSync as jest.Mock).mockReturnValue(JSON.stringify(invalidMapping));
+
+      expect(() => DefaultMapper.load(mockConfig, "/path/to/mapping.json")).toThrow();
+    });
   });
 });
 
@@ -342,3 +474,226 @@ describe("StrictMapper", () => {
     });
   });
 });
+
+describe("ReloadableMapper", () => {
+  const mockConfig = {
+    ragieApiKey: "default-ragie-key",
+    strictApiKeys: false,
+  };
+  const logger = { info: jest.fn(), error: jest.fn() } as unknown as winston.Logger;
+  const loader = (mappingFile: string) => StrictMapper.load(mockConfig, mappingFile);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ org1: { partition: "partition1" } }));
+  });
+
+  it("should delegate to the loaded mapper", () => {
+    const mapper = new ReloadableMapper("/path/to/mapping.json", loader, logger);
+    expect(mapper.hasMapping("org1")).toBe(true);
+    expect(mapper.getPartition("org1")).toBe("partition1");
+    expect(mapper.getApiKey("org1")).toBe("default-ragie-key");
+  });
+
+  it("should throw when the initial mapping is invalid", () => {
+    (readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ org1: { invalidField: "value" } }));
+    expect(() => new ReloadableMapper("/path/to/mapping.json", loader, logger)).toThrow();
+  });
+
+  it("should swap in a valid mapping on reload", () => {
+    const mapper = new ReloadableMapper("/path/to/mapping.json", loader, logger);
+    (readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ org2: { partition: "partition2" } }));
+
+    expect(mapper.reload()).toBe(true);
+    expect(mapper.hasMapping("org1")).toBe(false);
+    expect(mapper.getPartition("org2")).toBe("partition2");
+  });
+
+  it("should keep the last good mapping when the new mapping is invalid", () => {
+    const mapper = new ReloadableMapper("/path/to/mapping.json", loader, logger);
+    (readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ org2: { invalidField: "value" } }));
+
+    expect(mapper.reload()).toBe(false);
+    expect(mapper.getPartition("org1")).toBe("partition1");
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("org2.partition"));
+  });
+});
+
+describe("HttpMapper", () => {
+  const mockConfig = {
+    ragieApiKey: "default-ragie-key",
+    strictApiKeys: false,
+  };
+  const logger = { info: jest.fn(), error: jest.fn() } as unknown as winston.Logger;
+  const loader = (json: unknown) => StrictMapper.parse(mockConfig, json);
+  let fetchMock: jest.SpiedFunction<typeof fetch>;
+
+  function jsonResponse(body: unknown, etag: string): Response {
+    return new Response(JSON.stringify(body), { status: 200, headers: { etag } });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock = jest.spyOn(global, "fetch");
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it("should not be ready until the mapping has been loaded", async () => {
+    const mapper = new HttpMapper("https://config.example.com/mapping", loader, logger);
+    expect(mapper.isReady()).toBe(false);
+    expect(() => mapper.hasMapping("org1")).toThrow("Mapping has not been loaded");
+
+    fetchMock.mockResolvedValue(jsonResponse({ org1: { partition: "partition1" } }, '"v1"'));
+
+    expect(await mapper.reload()).toBe(true);
+    expect(mapper.isReady()).toBe(true);
+    expect(mapper.getPartition("org1")).toBe("partition1");
+  });
+
+  it("should send the ETag and the token, and keep the mapping when it has not been modified", async () => {
+    const mapper = new HttpMapper("https://config.example.com/mapping", loader, logger, "secret");
+    fetchMock.mockResolvedValueOnce(jsonResponse({ org1: { partition: "partition1" } }, '"v1"'));
+    await mapper.reload();
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    expect(await mapper.reload()).toBe(false);
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      "https://config.example.com/mapping",
+      expect.objectContaining({
+        headers: { Accept: "application/json", Authorization: "Bearer secret", "If-None-Match": '"v1"' },
+      })
+    );
+    expect(mapper.getPartition("org1")).toBe("partition1");
+  });
+
+  it("should keep the last good mapping when the endpoint fails or returns an invalid mapping", async () => {
+    const mapper = new HttpMapper("https://config.example.com/mapping", loader, logger);
+    fetchMock.mockResolvedValueOnce(jsonResponse({ org1: { partition: "partition1" } }, '"v1"'));
+    await mapper.reload();
+
+    fetchMock.mockResolvedValueOnce(new Response("unavailable", { status: 503 }));
+    expect(await mapper.reload()).toBe(false);
+    fetchMock.mockResolvedValueOnce(jsonResponse({ org2: { invalidField: "value" } }, '"v2"'));
+    expect(await mapper.reload()).toBe(false);
+
+    expect(mapper.getPartition("org1")).toBe("partition1");
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("status 503"));
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("org2.partition"));
+  });
+});
+
+describe("SqlMapper", () => {
+  const mockConfig = {
+    ragieApiKey: "default-ragie-key",
+    strictApiKeys: false,
+  };
+  let client: SqliteClient;
+
+  beforeEach(async () => {
+    client = new SqliteClient(":memory:");
+    await client.query(
+      `CREATE TABLE organization_mappings (
+        organization_id TEXT PRIMARY KEY,
+        partition TEXT NOT NULL,
+        slug TEXT UNIQUE,
+        api_key TEXT,
+        policy TEXT,
+        allowed_tools TEXT,
+        denied_tools TEXT,
+        rate_limits TEXT,
+        upstream TEXT
+      )`
+    );
+    await client.query(
+      "INSERT INTO organization_mappings (organization_id, partition, api_key, policy, allowed_tools) VALUES (?, ?, ?, ?, ?)",
+      ["org1", "partition1", "key1", JSON.stringify({ allowedRoles: ["admin"] }), JSON.stringify(["search"])]
+    );
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("should look up organizations in the table", async () => {
+    const mapper = new SqlMapper(client, "organization_mappings", json => StrictMapper.parse(mockConfig, json), 60_000);
+
+    expect(await mapper.hasMapping("org1")).toBe(true);
+    expect(await mapper.getPartition("org1")).toBe("partition1");
+    expect(await mapper.getApiKey("org1")).toBe("key1");
+    expect(await mapper.getPolicy("org1")).toEqual({ allowedRoles: ["admin"] });
+    expect(await mapper.getToolFilter("org1")).toEqual({ allowedTools: ["search"], deniedTools: undefined });
+    expect(await mapper.getRateLimits("org1")).toBeUndefined();
+    expect(await mapper.getUpstream("org1")).toBeUndefined();
+    expect(await mapper.hasMapping("org2")).toBe(false);
+  });
+
+  it("should store and look up per-organization upstreams", async () => {
+    const mapper = new SqlMapper(client, "organization_mappings", json => StrictMapper.parse(mockConfig, json), 60_000);
+    const upstream = { url: "https://mcp.eu.example.com", pathTemplate: "/tenants/{partition}/mcp" };
+
+    await mapper.putEntry("org2", { partition: "partition2", apiKey: "key2", upstream });
+
+    expect(await mapper.getUpstream("org2")).toEqual(upstream);
+    expect(await mapper.getEntry("org2")).toEqual({ partition: "partition2", apiKey: "key2", upstream });
+  });
+
+  it("should resolve slugs and forget cached slug lookups when entries change", async () => {
+    const mapper = new SqlMapper(client, "organization_mappings", json => StrictMapper.parse(mockConfig, json), 60_000);
+
+    expect(await mapper.resolveSlug("acme")).toBeUndefined();
+    await mapper.putEntry("org1", { partition: "partition1", slug: "acme" });
+
+    expect(await mapper.resolveSlug("acme")).toBe("org1");
+    expect(await mapper.getSlug("org1")).toBe("acme");
+    expect(await mapper.getEntry("org1")).toEqual({ partition: "partition1", slug: "acme" });
+  });
+
+  it("should fall back like the default mapper for organizations without a row", async () => {
+    const mapper = new SqlMapper(client, "organization_mappings", json => DefaultMapper.parse(mockConfig, json), 0);
+
+    expect(await mapper.hasMapping("ORG2")).toBe(true);
+    expect(await mapper.getPartition("ORG2")).toBe("org2");
+    expect(await mapper.getApiKey("ORG2")).toBe("default-ragie-key");
+  });
+
+  it("should cache lookups until the TTL expires", async () => {
+    const mapper = new SqlMapper(client, "organization_mappings", json => StrictMapper.parse(mockConfig, json), 60_000);
+    const query = jest.spyOn(client, "query");
+
+    await mapper.getPartition("org1");
+    await mapper.getApiKey("org1");
+    await mapper.hasMapping("org2");
+    await mapper.hasMapping("org2");
+
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("should reject rows that are not valid mapping entries", async () => {
+    await client.query("INSERT INTO organization_mappings (organization_id, partition, policy) VALUES (?, ?, ?)", [
+      "org3",
+      "partition3",
+      JSON.stringify({ allowedRoles: "admin" }),
+    ]);
+    const mapper = new SqlMapper(client, "organization_mappings", json => StrictMapper.parse(mockConfig, json), 60_000);
+
+    await expect(mapper.hasMapping("org3")).rejects.toThrow("Mapping for organization org3 is invalid");
+  });
+
+  it("should report readiness from the database connection", async () => {
+    const mapper = new SqlMapper(client, "organization_mappings", json => StrictMapper.parse(mockConfig, json), 60_000);
+    expect(await mapper.isReady()).toBe(true);
+
+    await client.close();
+    expect(await mapper.isReady()).toBe(false);
+    client = new SqliteClient(":memory:");
+  });
+
+  it("should reject invalid table names", () => {
+    expect(
+      () => new SqlMapper(client, "mappings; DROP TABLE x", json => StrictMapper.parse(mockConfig, json), 60_000)
+    ).toThrow("Invalid mapping table name");
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for the MCP JSON-RPC helpers
+ */
+
+import { Readable } from "stream";
+import {
+  filterToolsListResult,
+  getToolCallName,
+  isToolAllowed,
+  parseJsonRpcMessages,
+  SseMessageTransform,
+} from "../mcp.js";
+
+describe("parseJsonRpcMessages", () => {
+  it("should wrap a single message", () => {
+    const message = { jsonrpc: "2.0", id: 1, method: "tools/list" };
+    expect(parseJsonRpcMessages(message)).toEqual([message]);
+  });
+
+  it("should return the messages of a batch", () => {
+    const batch = [
+      { jsonrpc: "2.0", id: 1, method: "tools/list" },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+    ];
+    expect(parseJsonRpcMessages(batch)).toEqual(batch);
+  });
+
+  it("should return undefined for bodies that are not JSON-RPC", () => {
+    expect(parseJsonRpcMessages(undefined)).toBeUndefined();
+    expect(parseJsonRpcMessages({ query: "example" })).toBeUndefined();
+    expect(parseJsonRpcMessages([])).toBeUndefined();
+  });
+});
+
+describe("isToolAllowed", () => {
+  it("should allow every tool without lists", () => {
+    expect(isToolAllowed({}, "search")).toBe(true);
+  });
+
+  it("should only allow listed tools when an allow list is set", () => {
+    expect(isToolAllowed({ allowedTools: ["search"] }, "search")).toBe(true);
+    expect(isToolAllowed({ allowedTools: ["search"] }, "fetch")).toBe(false);
+  });
+
+  it("should let the deny list take precedence", () => {
+    expect(isToolAllowed({ allowedTools: ["search"], deniedTools: ["search"] }, "search")).toBe(false);
+  });
+});
+
+describe("getToolCallName", () => {
+  it("should return the tool name of tools/call requests", () => {
+    expect(getToolCallName({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "search" } })).toBe("search");
+  });
+
+  it("should return undefined for other methods", () => {
+    expect(getToolCallName({ jsonrpc: "2.0", id: 1, method: "tools/list" })).toBeUndefined();
+  });
+});
+
+describe("filterToolsListResult", () => {
+  it("should remove hidden tools", () => {
+    const message = {
+      jsonrpc: "2.0" as const,
+      id: 1,
+      result: { tools: [{ name: "search" }, { name: "fetch" }], nextCursor: "abc" },
+    };
+    expect(filterToolsListResult(message, { deniedTools: ["fetch"] })).toEqual({
+      jsonrpc: "2.0",
+      id: 1,
+      result: { tools: [{ name: "search" }], nextCursor: "abc" },
+    });
+  });
+
+  it("should leave other messages unchanged", () => {
+    const message = { jsonrpc: "2.0" as const, id: 1, error: { code: -32000, message: "Error" } };
+    expect(filterToolsListResult(message, { deniedTools: ["fetch"] })).toBe(message);
+  });
+});
+
+describe("SseMessageTransform", () => {
+  async function transform(
+    chunks: (string | Buffer)[],
+    rewrite: ConstructorParameters<typeof SseMessageTransform>[0]
+  ): Promise<string> {
+    let output = "";
+    for await (const chunk of Readable.from(chunks).pipe(new SseMessageTransform(rewrite))) {
+      output += chunk;
+    }
+    return output;
+  }
+
+  it("should rewrite JSON data in events split across chunks", async () => {
+    const output = await transform(['event: message\ndata: {"a":', "1}\n\n"], () => ({ b: 2 }));
+    expect(output).toBe('event: message\ndata: {"b":2}\n\n');
+  });
+
+  it("should decode characters split across chunks", async () => {
+    const event = Buffer.from('data: {"description":"Café"}\n\n');
+    const split = event.indexOf("é") + 1;
+
+    const output = await transform([event.subarray(0, split), event.subarray(split)], message => message);
+
+    expect(output).toBe('data: {"description":"Café"}\n\n');
+  });
+
+  it("should pass through events without JSON data", async () => {
+    const output = await transform([": keep-alive\n\n", "data: not json\n\n"], () => ({ b: 2 }));
+    expect(output).toBe(": keep-alive\n\ndata: not json\n\n");
+  });
+});
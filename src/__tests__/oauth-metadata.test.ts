@@ -0,0 +1,143 @@
+/**
+ * Tests for the authorization server metadata cache
+ */
+
+import type winston from "winston";
+import { applyMetadataOverrides, AuthorizationServerMetadataCache, cacheTtlMs } from "../oauth-metadata.js";
+
+const issuer = "https://auth.example.com";
+const metadata = {
+  issuer,
+  authorization_endpoint: `${issuer}/oauth2/authorize`,
+  token_endpoint: `${issuer}/oauth2/token`,
+  jwks_uri: `${issuer}/oauth2/jwks`,
+  response_types_supported: ["code"],
+  scopes_supported: ["openid", "profile", "email", "offline_access"],
+};
+
+describe("cacheTtlMs", () => {
+  it("should read the lifetime from Cache-Control", () => {
+    expect(cacheTtlMs("public, max-age=600")).toBe(600_000);
+    expect(cacheTtlMs("max-age=600, s-maxage=60")).toBe(60_000);
+    expect(cacheTtlMs("no-cache")).toBe(0);
+    expect(cacheTtlMs("public")).toBeUndefined();
+    expect(cacheTtlMs(null)).toBeUndefined();
+  });
+});
+
+describe("applyMetadataOverrides", () => {
+  it("should replace fields and remove fields overridden with null", () => {
+    expect(
+      applyMetadataOverrides(metadata, {
+        registration_endpoint: "https://gateway.example.com/oauth/register",
+        scopes_supported: ["openid"],
+        jwks_uri: null,
+      })
+    ).toEqual({
+      issuer,
+      authorization_endpoint: `${issuer}/oauth2/authorize`,
+      token_endpoint: `${issuer}/oauth2/token`,
+      response_types_supported: ["code"],
+      scopes_supported: ["openid"],
+      registration_endpoint: "https://gateway.example.com/oauth/register",
+    });
+  });
+});
+
+describe("AuthorizationServerMetadataCache", () => {
+  const url = `${issuer}/.well-known/oauth-authorization-server`;
+  const logger = { error: jest.fn(), warn: jest.fn() } as unknown as winston.Logger;
+  let fetchMock: jest.SpiedFunction<typeof fetch>;
+  let now: number;
+
+  function createCache(overrides = {}) {
+    return new AuthorizationServerMetadataCache({
+      url,
+      issuer,
+      timeoutMs: 1000,
+      defaultTtlMs: 300_000,
+      overrides,
+      logger,
+    });
+  }
+
+  function jsonResponse(body: unknown, cacheControl?: string): Response {
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: cacheControl ? { "cache-control": cacheControl } : {},
+    });
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    now = 1_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    fetchMock = jest.spyOn(global, "fetch");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should cache the metadata for as long as Cache-Control allows", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(metadata, "max-age=60"));
+    const cache = createCache();
+
+    expect(await cache.get()).toEqual({ metadata, maxAge: 60 });
+    now += 30_000;
+    expect(await cache.get()).toEqual({ metadata, maxAge: 30 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    now += 30_000;
+    await cache.get();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should share a fetch between concurrent requests and fall back to the default lifetime", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(metadata));
+    const cache = createCache();
+
+    const documents = await Promise.all([cache.get(), cache.get()]);
+
+    expect(documents[1]).toEqual({ metadata, maxAge: 300 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should serve stale metadata while the authorization server is unavailable", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(metadata, "max-age=60"));
+    const cache = createCache();
+    await cache.get();
+
+    now += 120_000;
+    fetchMock.mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+    expect(await cache.get()).toEqual({ metadata, maxAge: 0 });
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining("serving stale metadata"));
+
+    // The next attempt waits, so that every request does not wait for the timeout during an outage
+    expect(await cache.get()).toEqual({ metadata, maxAge: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fail until valid metadata has been fetched", async () => {
+    const cache = createCache();
+
+    fetchMock.mockResolvedValueOnce(new Response("<html>", { status: 200 }));
+    await expect(cache.get()).rejects.toThrow("could not be fetched");
+    fetchMock.mockResolvedValueOnce(jsonResponse({ issuer }));
+    await expect(cache.get()).rejects.toThrow("could not be fetched");
+    fetchMock.mockResolvedValueOnce(jsonResponse({ ...metadata, issuer: "https://evil.example.com" }));
+    await expect(cache.get()).rejects.toThrow("could not be fetched");
+
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("response_types_supported"));
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("does not match"));
+  });
+
+  it("should apply the overrides", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(metadata));
+    const cache = createCache({ scopes_supported: ["openid"] });
+
+    const { metadata: served } = await cache.get();
+
+    expect(served.scopes_supported).toEqual(["openid"]);
+  });
+});
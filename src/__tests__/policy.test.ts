@@ -0,0 +1,68 @@
+/**
+ * Tests for per-organization access policies
+ */
+
+import { AccessSubject, evaluatePolicy } from "../policy.js";
+
+describe("evaluatePolicy", () => {
+  const subject: AccessSubject = {
+    userId: "user_1",
+    role: "member",
+    permissions: ["mcp:read"],
+    email: "jane@example.com",
+  };
+
+  it("should allow any subject with an empty policy", () => {
+    expect(evaluatePolicy({}, subject)).toBeUndefined();
+  });
+
+  describe("allowedRoles", () => {
+    it("should allow subjects with an allowed role", () => {
+      expect(evaluatePolicy({ allowedRoles: ["admin", "member"] }, subject)).toBeUndefined();
+    });
+
+    it("should deny subjects with another role", () => {
+      expect(evaluatePolicy({ allowedRoles: ["admin"] }, subject)).toBe(
+        "Role member is not allowed to access this organization."
+      );
+    });
+
+    it("should deny subjects without a role", () => {
+      expect(evaluatePolicy({ allowedRoles: ["admin"] }, { ...subject, role: undefined })).toBeDefined();
+    });
+  });
+
+  describe("requiredPermissions", () => {
+    it("should allow subjects with all required permissions", () => {
+      expect(evaluatePolicy({ requiredPermissions: ["mcp:read"] }, subject)).toBeUndefined();
+    });
+
+    it("should list the missing permissions", () => {
+      expect(evaluatePolicy({ requiredPermissions: ["mcp:read", "mcp:write"] }, subject)).toBe(
+        "Missing required permissions: mcp:write."
+      );
+    });
+  });
+
+  describe("allowedUserIds and allowedEmailDomains", () => {
+    it("should allow listed users", () => {
+      expect(evaluatePolicy({ allowedUserIds: ["user_1"] }, subject)).toBeUndefined();
+    });
+
+    it("should allow users from listed email domains case-insensitively", () => {
+      expect(evaluatePolicy({ allowedEmailDomains: ["EXAMPLE.com"] }, subject)).toBeUndefined();
+    });
+
+    it("should allow users matching either list", () => {
+      expect(
+        evaluatePolicy({ allowedUserIds: ["user_2"], allowedEmailDomains: ["example.com"] }, subject)
+      ).toBeUndefined();
+    });
+
+    it("should deny users matching neither list", () => {
+      expect(evaluatePolicy({ allowedUserIds: ["user_2"], allowedEmailDomains: ["other.com"] }, subject)).toBe(
+        "User is not allowed to access this organization."
+      );
+    });
+  });
+});
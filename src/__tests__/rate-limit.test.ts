@@ -0,0 +1,58 @@
+/**
+ * Tests for the rate limit stores
+ */
+
+import RedisMock from "ioredis-mock";
+import { InMemoryRateLimitStore, RateLimitStore, RedisRateLimitStore } from "../rate-limit.js";
+
+describe.each<[string, () => RateLimitStore]>([
+  ["InMemoryRateLimitStore", () => new InMemoryRateLimitStore()],
+  ["RedisRateLimitStore", () => new RedisRateLimitStore(new RedisMock())],
+])("%s", (_name, createStore) => {
+  const limit = { requestsPerMinute: 60, burst: 2 };
+  let store: RateLimitStore;
+  let now: number;
+
+  beforeEach(() => {
+    store = createStore();
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should allow requests up to the burst size", async () => {
+    const first = await store.consume(`burst-${_name}`, limit);
+    const second = await store.consume(`burst-${_name}`, limit);
+    const third = await store.consume(`burst-${_name}`, limit);
+
+    expect(first).toEqual({ allowed: true, limit: 2, remaining: 1, resetMs: 1000, retryAfterMs: 0 });
+    expect(second).toEqual({ allowed: true, limit: 2, remaining: 0, resetMs: 2000, retryAfterMs: 0 });
+    expect(third).toEqual({ allowed: false, limit: 2, remaining: 0, resetMs: 2000, retryAfterMs: 1000 });
+  });
+
+  it("should refill tokens over time", async () => {
+    await store.consume(`refill-${_name}`, limit);
+    await store.consume(`refill-${_name}`, limit);
+
+    now += 1000;
+
+    expect((await store.consume(`refill-${_name}`, limit)).allowed).toBe(true);
+    expect((await store.consume(`refill-${_name}`, limit)).allowed).toBe(false);
+  });
+
+  it("should keep separate buckets per key", async () => {
+    await store.consume(`a-${_name}`, limit);
+    await store.consume(`a-${_name}`, limit);
+
+    expect((await store.consume(`b-${_name}`, limit)).allowed).toBe(true);
+  });
+
+  it("should default the burst size to the requests per minute", async () => {
+    const result = await store.consume(`default-${_name}`, { requestsPerMinute: 10 });
+    expect(result.limit).toBe(10);
+    expect(result.remaining).toBe(9);
+  });
+});
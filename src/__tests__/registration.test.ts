@@ -0,0 +1,174 @@
+/**
+ * Tests for the dynamic client registration facade
+ */
+
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import type winston from "winston";
+import {
+  ClientRegistrationHandler,
+  ClientRegistrationMode,
+  ClientRegistrationOptions,
+  hasFixedHost,
+  isRedirectUriAllowed,
+} from "../registration.js";
+import { createMockLogger } from "./helpers.js";
+
+const upstreamUrl = "https://auth.example.com/oauth2/register";
+const patterns = ["https://claude.ai/api/mcp/auth_callback", "http://localhost:*/callback"];
+
+describe("isRedirectUriAllowed", () => {
+  it("should match exact URIs and wildcards within a single component", () => {
+    expect(isRedirectUriAllowed(patterns, "https://claude.ai/api/mcp/auth_callback")).toBe(true);
+    expect(isRedirectUriAllowed(patterns, "http://localhost:53682/callback")).toBe(true);
+
+    expect(isRedirectUriAllowed(patterns, "https://claude.ai/api/mcp/auth_callback/other")).toBe(false);
+    expect(isRedirectUriAllowed(patterns, "http://localhost:1/evil/callback")).toBe(false);
+    expect(isRedirectUriAllowed(patterns, "http://localhost:1@evil.example.com/callback")).toBe(false);
+    expect(isRedirectUriAllowed(patterns, "https://claude.ai/api/mcp/auth_callback#fragment")).toBe(false);
+    expect(isRedirectUriAllowed(patterns, "not a url")).toBe(false);
+  });
+});
+
+describe("hasFixedHost", () => {
+  it("should only allow wildcards outside the host", () => {
+    expect(hasFixedHost("https://claude.ai/api/mcp/auth_callback")).toBe(true);
+    expect(hasFixedHost("http://localhost:*/callback")).toBe(true);
+    expect(hasFixedHost("https://app.example.com/*/callback")).toBe(true);
+
+    expect(hasFixedHost("https://*.example.com/callback")).toBe(false);
+    expect(hasFixedHost("https://*/callback")).toBe(false);
+    expect(hasFixedHost("http://*:8080/callback")).toBe(false);
+    expect(hasFixedHost("*")).toBe(false);
+  });
+});
+
+describe("ClientRegistrationHandler", () => {
+  const realFetch = global.fetch;
+  let auditLogger: winston.Logger;
+  let server: Server;
+  let url: string;
+
+  async function start(mode: ClientRegistrationMode, issueClientId?: ClientRegistrationOptions["issueClientId"]) {
+    auditLogger = createMockLogger();
+    const handler = new ClientRegistrationHandler({
+      mode,
+      upstreamUrl,
+      clientId: "client_static",
+      issueClientId,
+      redirectUriPatterns: patterns,
+      logger: createMockLogger(),
+      auditLogger,
+    });
+    const app = express();
+    app.use("/oauth/register", handler.router);
+    server = await new Promise<Server>(resolve => {
+      const server = app.listen(0, () => resolve(server));
+    });
+    url = `http://localhost:${(server.address() as AddressInfo).port}/oauth/register`;
+  }
+
+  async function register(metadata: unknown): Promise<globalThis.Response> {
+    return realFetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(metadata),
+    });
+  }
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("should hand out the preconfigured client in static mode", async () => {
+    await start("static");
+
+    const response = await register({
+      client_name: "Claude",
+      redirect_uris: ["https://claude.ai/api/mcp/auth_callback"],
+      token_endpoint_auth_method: "client_secret_basic",
+    });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({
+      client_id: "client_static",
+      client_name: "Claude",
+      redirect_uris: ["https://claude.ai/api/mcp/auth_callback"],
+      token_endpoint_auth_method: "none",
+    });
+    expect(auditLogger.info).toHaveBeenCalledWith(
+      "Client registration",
+      expect.objectContaining({ clientId: "client_static", clientName: "Claude", mode: "static" })
+    );
+  });
+
+  it("should hand out clients issued for the redirect URIs when the gateway is the authorization server", async () => {
+    const issueClientId = jest.fn().mockResolvedValue("client_issued");
+    await start("static", issueClientId);
+
+    const response = await register({ redirect_uris: ["http://localhost:8080/callback"] });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ client_id: "client_issued" });
+    expect(issueClientId).toHaveBeenCalledWith(["http://localhost:8080/callback"]);
+  });
+
+  it("should reject redirect URIs that are not allowed and invalid metadata", async () => {
+    await start("static");
+
+    let response = await register({ redirect_uris: ["http://localhost:8080/callback", "https://evil.example.com/"] });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "invalid_redirect_uri",
+      error_description: "Redirect URI https://evil.example.com/ is not allowed.",
+    });
+
+    response = await register({ client_name: "No redirect URIs" });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: "invalid_client_metadata" });
+    expect(auditLogger.info).not.toHaveBeenCalled();
+  });
+
+  it("should forward registrations to the upstream and relay its response", async () => {
+    await start("forward");
+    const fetchMock = jest.spyOn(global, "fetch").mockResolvedValue(
+      new globalThis.Response(
+        JSON.stringify({ client_id: "client_123", redirect_uris: ["http://localhost:1/callback"] }),
+        {
+          status: 201,
+        }
+      )
+    );
+
+    const response = await register({ redirect_uris: ["http://localhost:1/callback"] });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ client_id: "client_123", redirect_uris: ["http://localhost:1/callback"] });
+    expect(fetchMock).toHaveBeenCalledWith(
+      upstreamUrl,
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ redirect_uris: ["http://localhost:1/callback"] }),
+      })
+    );
+    expect(auditLogger.info).toHaveBeenCalledWith(
+      "Client registration",
+      expect.objectContaining({ clientId: "client_123", mode: "forward" })
+    );
+  });
+
+  it("should answer with 502 when the upstream is unavailable", async () => {
+    await start("forward");
+    jest.spyOn(global, "fetch").mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    const response = await register({ redirect_uris: ["http://localhost:1/callback"] });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: "server_error",
+      error_description: "Client registration is unavailable.",
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for secret references and encrypted values
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { encryptSecret, parseMasterKey, resolveSecret } from "../secrets.js";
+
+const masterKey = Buffer.alloc(32, 1).toString("base64");
+const otherMasterKey = Buffer.alloc(32, 2).toString("base64");
+
+describe("parseMasterKey", () => {
+  it("should require 32 bytes", () => {
+    expect(parseMasterKey(masterKey)).toHaveLength(32);
+    expect(() => parseMasterKey(Buffer.alloc(16).toString("base64"))).toThrow("Master key must be 32 bytes");
+  });
+});
+
+describe("resolveSecret", () => {
+  it("should return plaintext values unchanged", () => {
+    expect(resolveSecret("tnt_plaintext", undefined)).toBe("tnt_plaintext");
+  });
+
+  it("should decrypt values encrypted with the master key", () => {
+    const encrypted = encryptSecret("tnt_secret", masterKey);
+
+    expect(encrypted).toMatch(/^enc:v1:/);
+    expect(encrypted).not.toContain("tnt_secret");
+    expect(resolveSecret(encrypted, masterKey)).toBe("tnt_secret");
+  });
+
+  it("should use a new IV for every encryption", () => {
+    expect(encryptSecret("tnt_secret", masterKey)).not.toBe(encryptSecret("tnt_secret", masterKey));
+  });
+
+  it("should reject encrypted values without the right master key", () => {
+    const encrypted = encryptSecret("tnt_secret", masterKey);
+
+    expect(() => resolveSecret(encrypted, undefined)).toThrow("Encrypted value requires a master key");
+    expect(() => resolveSecret(encrypted, otherMasterKey)).toThrow("could not be decrypted");
+    expect(() => resolveSecret("enc:v1:AAAA", masterKey)).toThrow("Encrypted value is malformed");
+  });
+
+  it("should read environment variables", () => {
+    process.env["TEST_RAGIE_API_KEY"] = "tnt_from_env";
+    try {
+      expect(resolveSecret("env:TEST_RAGIE_API_KEY", undefined)).toBe("tnt_from_env");
+      expect(() => resolveSecret("env:TEST_MISSING_API_KEY", undefined)).toThrow(
+        "Environment variable TEST_MISSING_API_KEY is not set"
+      );
+    } finally {
+      delete process.env["TEST_RAGIE_API_KEY"];
+    }
+  });
+
+  it("should read files without the trailing newline", () => {
+    const dir = mkdtempSync(join(tmpdir(), "secrets-"));
+    try {
+      writeFileSync(join(dir, "api-key"), "tnt_from_file\n");
+      expect(resolveSecret(`file:${join(dir, "api-key")}`, undefined)).toBe("tnt_from_file");
+      expect(() => resolveSecret(`file:${join(dir, "missing")}`, undefined)).toThrow("could not be read (ENOENT)");
+
+      writeFileSync(join(dir, "empty"), "\n");
+      expect(() => resolveSecret(`file:${join(dir, "empty")}`, undefined)).toThrow("empty value");
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Tests for HTML template rendering
+ */
+
+import { escapeHtml, loadTemplate, renderTemplate } from "../templates.js";
+
+describe("escapeHtml", () => {
+  it("should escape characters with a meaning in HTML", () => {
+    expect(escapeHtml(`<a href="x" title='y'>&</a>`)).toBe(
+      "&lt;a href=&quot;x&quot; title=&#39;y&#39;&gt;&amp;&lt;/a&gt;"
+    );
+  });
+});
+
+describe("renderTemplate", () => {
+  it("should escape values and insert rendered fragments as they are", () => {
+    expect(
+      renderTemplate("<h1>{{ title }}</h1>{{{body}}}", { title: "<script>alert(1)</script>", body: "<p>Hi</p>" })
+    ).toBe("<h1>&lt;script&gt;alert(1)&lt;/script&gt;</h1><p>Hi</p>");
+  });
+
+  it("should fail when a value is missing", () => {
+    expect(() => renderTemplate("{{name}}", {})).toThrow("Template value name is missing");
+  });
+
+  it("should render the bundled templates", () => {
+    const html = renderTemplate(loadTemplate("organizations.html"), { userName: "Jane", organizations: "" });
+
+    expect(html).toContain("Welcome, Jane");
+  });
+});
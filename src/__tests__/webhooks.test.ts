@@ -0,0 +1,201 @@
+/**
+ * Tests for the WorkOS webhook handler
+ */
+
+import { WorkOS } from "@workos-inc/node";
+import { createHmac } from "crypto";
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import type winston from "winston";
+import { SqlMapper, StrictMapper } from "../mapping.js";
+import { SqliteClient } from "../sql.js";
+import { renderPartitionTemplate, WebhookHandler } from "../webhooks.js";
+import { createMockLogger } from "./helpers.js";
+
+const mapperConfig = {
+  ragieApiKey: "default-ragie-key",
+  strictApiKeys: false,
+};
+const secret = "webhook-secret";
+
+function sign(body: string, timestamp = Date.now()): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp}, v1=${signature}`;
+}
+
+function organizationEvent(event: string, id: string, name: string) {
+  return {
+    id: `event_${event}_${id}`,
+    event,
+    created_at: "2026-01-01T00:00:00.000Z",
+    data: {
+      object: "organization",
+      id,
+      name,
+      allow_profiles_outside_organization: false,
+      domains: [],
+      created_at: "2026-01-01T00:00:00.000Z",
+      updated_at: "2026-01-01T00:00:00.000Z",
+      external_id: null,
+      metadata: {},
+    },
+  };
+}
+
+describe("renderPartitionTemplate", () => {
+  it("should substitute the organization ID and a slug of its name", () => {
+    const organization = { id: "org_01ABC", name: "  Acme Corp. (EU)" };
+
+    expect(renderPartitionTemplate("{id}", organization)).toBe("org_01abc");
+    expect(renderPartitionTemplate("org-{slug}", organization)).toBe("org-acme-corp-eu");
+  });
+});
+
+describe("WebhookHandler", () => {
+  let client: SqliteClient;
+  let mapper: SqlMapper;
+  let invalidateMembership: jest.Mock;
+  let auditLogger: winston.Logger;
+  let server: Server;
+  let url: string;
+
+  async function post(payload: unknown, signature?: string): Promise<globalThis.Response> {
+    const body = JSON.stringify(payload);
+    return fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "WorkOS-Signature": signature ?? sign(body) },
+      body,
+    });
+  }
+
+  beforeEach(async () => {
+    client = new SqliteClient(":memory:");
+    await client.query(
+      `CREATE TABLE organization_mappings (
+        organization_id TEXT PRIMARY KEY,
+        partition TEXT NOT NULL,
+        slug TEXT UNIQUE,
+        api_key TEXT,
+        policy TEXT,
+        allowed_tools TEXT,
+        denied_tools TEXT,
+        rate_limits TEXT,
+        upstream TEXT
+      )`
+    );
+    mapper = new SqlMapper(client, "organization_mappings", json => StrictMapper.parse(mapperConfig, json), 60_000);
+    invalidateMembership = jest.fn().mockResolvedValue(undefined);
+    auditLogger = createMockLogger();
+    const handler = new WebhookHandler({
+      workos: new WorkOS("workos_api_key"),
+      secret,
+      partitionTemplate: "org-{slug}",
+      mapperConfig,
+      store: mapper,
+      invalidateMembership,
+      logger: createMockLogger(),
+      auditLogger,
+    });
+
+    const app = express();
+    app.use("/webhooks/workos", handler.router);
+    server = await new Promise<Server>(resolve => {
+      const server = app.listen(0, () => resolve(server));
+    });
+    url = `http://localhost:${(server.address() as AddressInfo).port}/webhooks/workos`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await client.close();
+  });
+
+  it("should reject events without a valid signature", async () => {
+    const payload = organizationEvent("organization.created", "org_new", "Acme");
+
+    let response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    expect(response.status).toBe(400);
+
+    response = await post(payload, sign("{}"));
+    expect(response.status).toBe(400);
+
+    response = await post(payload, sign(JSON.stringify(payload), Date.now() - 10 * 60 * 1000));
+    expect(response.status).toBe(400);
+
+    expect(await mapper.hasMapping("org_new")).toBe(false);
+  });
+
+  it("should provision created organizations from the partition template", async () => {
+    const response = await post(organizationEvent("organization.created", "org_new", "Acme Corp"));
+
+    expect(response.status).toBe(200);
+    expect(await mapper.hasMapping("org_new")).toBe(true);
+    expect(await mapper.getPartition("org_new")).toBe("org-acme-corp");
+    expect(auditLogger.info).toHaveBeenCalledWith("Mapping change", {
+      action: "create",
+      organizationId: "org_new",
+      actor: "workos-webhook",
+      before: undefined,
+      after: { partition: "org-acme-corp" },
+    });
+  });
+
+  it("should not overwrite existing mappings", async () => {
+    await mapper.putEntry("org_new", { partition: "custom", apiKey: "key" });
+
+    const response = await post(organizationEvent("organization.created", "org_new", "Acme Corp"));
+
+    expect(response.status).toBe(200);
+    expect(await mapper.getPartition("org_new")).toBe("custom");
+    expect(auditLogger.info).not.toHaveBeenCalled();
+  });
+
+  it("should remove the mappings of deleted organizations", async () => {
+    await mapper.putEntry("org_old", { partition: "old", apiKey: "key" });
+
+    const response = await post(organizationEvent("organization.deleted", "org_old", "Old Corp"));
+
+    expect(response.status).toBe(200);
+    expect(await mapper.hasMapping("org_old")).toBe(false);
+    expect(auditLogger.info).toHaveBeenCalledWith("Mapping change", {
+      action: "delete",
+      organizationId: "org_old",
+      actor: "workos-webhook",
+      before: { partition: "old", apiKey: "[redacted]" },
+      after: undefined,
+    });
+  });
+
+  it("should invalidate cached memberships on membership events", async () => {
+    const response = await post({
+      id: "event_membership",
+      event: "organization_membership.updated",
+      created_at: "2026-01-01T00:00:00.000Z",
+      data: {
+        object: "organization_membership",
+        id: "om_1",
+        user_id: "user_1",
+        organization_id: "org_1",
+        status: "active",
+        role: { slug: "member" },
+        created_at: "2026-01-01T00:00:00.000Z",
+        updated_at: "2026-01-01T00:00:00.000Z",
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(invalidateMembership).toHaveBeenCalledTimes(1);
+    expect(invalidateMembership).toHaveBeenCalledWith("user_1", "org_1");
+  });
+
+  it("should acknowledge events it does not handle", async () => {
+    const response = await post({ id: "event_other", event: "unknown.event", data: {} });
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for the welcome page organization picker
+ */
+
+import type { WorkOS } from "@workos-inc/node";
+import express from "express";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { mcpClientSnippets, WelcomePage } from "../welcome.js";
+import { createMockLogger } from "./helpers.js";
+
+const baseUrl = "https://gateway.example.com";
+const user = { id: "user1", firstName: "<Jane>", email: "jane@example.com" };
+
+describe("mcpClientSnippets", () => {
+  it("should configure each client with the MCP URL", () => {
+    const snippets = mcpClientSnippets("https://gateway.example.com/org1/mcp");
+
+    expect(snippets["claudeCode"]).toBe("claude mcp add --transport http ragie https://gateway.example.com/org1/mcp");
+    expect(JSON.parse(snippets["cursor"] ?? "")).toEqual({
+      mcpServers: { ragie: { url: "https://gateway.example.com/org1/mcp" } },
+    });
+    expect(JSON.parse(snippets["vscode"] ?? "")).toEqual({
+      servers: { ragie: { type: "http", url: "https://gateway.example.com/org1/mcp" } },
+    });
+  });
+});
+
+describe("WelcomePage", () => {
+  let server: Server;
+  let url: string;
+  let authenticate: jest.Mock;
+  let refresh: jest.Mock;
+  let authenticateWithCode: jest.Mock;
+  let listOrganizationMemberships: jest.Mock;
+
+  beforeEach(async () => {
+    authenticate = jest.fn().mockResolvedValue({ authenticated: true, user });
+    refresh = jest.fn().mockResolvedValue({ authenticated: false, reason: "invalid_grant" });
+    authenticateWithCode = jest.fn().mockResolvedValue({ user, sealedSession: "sealed-session" });
+    listOrganizationMemberships = jest.fn().mockResolvedValue({
+      data: [
+        { organizationId: "org2", organizationName: "Zeta Inc" },
+        { organizationId: "org1", organizationName: "Acme <Corp>" },
+        { organizationId: "org3", organizationName: "Unmapped" },
+      ],
+      listMetadata: {},
+    });
+    const workos = {
+      userManagement: {
+        getAuthorizationUrl: jest.fn(({ state }: { state: string }) => `https://auth.example.com/?state=${state}`),
+        loadSealedSession: jest.fn(() => ({ authenticate, refresh })),
+        authenticateWithCode,
+        listOrganizationMemberships,
+      },
+    } as unknown as WorkOS;
+    const welcome = new WelcomePage({
+      workos,
+      clientId: "workos_client_id",
+      baseUrl,
+      cookiePassword: "a".repeat(32),
+      mcpUrl: organizationId => `${baseUrl}/${organizationId}/mcp`,
+      hasMapping: organizationId => organizationId !== "org3",
+      logger: createMockLogger(),
+    });
+    const app = express();
+    app.use("/welcome", welcome.router);
+    server = await new Promise<Server>(resolve => {
+      const server = app.listen(0, () => resolve(server));
+    });
+    url = `http://localhost:${(server.address() as AddressInfo).port}/welcome`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function get(path: string, cookie?: string) {
+    return fetch(`${url}${path}`, { redirect: "manual", headers: cookie ? { cookie } : {} });
+  }
+
+  it("should send users without a session to AuthKit and sign them in on the callback", async () => {
+    const signIn = await get("/");
+    expect(signIn.status).toBe(302);
+    const state = new URL(signIn.headers.get("location") ?? "").searchParams.get("state");
+    expect(signIn.headers.get("set-cookie")).toContain(`mcp_gateway_welcome_state=${state}`);
+
+    const rejected = await get("/callback?code=code&state=other", `mcp_gateway_welcome_state=${state}`);
+    expect(rejected.status).toBe(400);
+
+    const callback = await get(`/callback?code=code&state=${state}`, `mcp_gateway_welcome_state=${state}`);
+    expect(callback.status).toBe(302);
+    expect(callback.headers.get("location")).toBe(`${baseUrl}/welcome`);
+    expect(callback.headers.get("set-cookie")).toMatch(/mcp_gateway_session=sealed-session; Path=\/welcome; HttpOnly/);
+    expect(authenticateWithCode).toHaveBeenCalledWith({
+      clientId: "workos_client_id",
+      code: "code",
+      session: { sealSession: true, cookiePassword: "a".repeat(32) },
+    });
+  });
+
+  it("should list the user's organizations with their MCP URLs, escaping names", async () => {
+    const response = await get("/", "mcp_gateway_session=sealed-session");
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(listOrganizationMemberships).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "user1", statuses: ["active"] })
+    );
+    expect(html).toContain("Welcome, &lt;Jane&gt;");
+    expect(html).toContain("Acme &lt;Corp&gt;");
+    expect(html).toContain(`data-copy="${baseUrl}/org1/mcp"`);
+    expect(html).toContain("claude mcp add --transport http ragie https://gateway.example.com/org2/mcp");
+    expect(html).toContain("&quot;url&quot;: &quot;https://gateway.example.com/org1/mcp&quot;");
+    expect(html).not.toContain("Unmapped");
+    expect(html.indexOf("Acme")).toBeLessThan(html.indexOf("Zeta"));
+  });
+
+  it("should refresh expired sessions and ask users to sign in when that fails", async () => {
+    authenticate.mockResolvedValue({ authenticated: false, reason: "invalid_jwt" });
+    refresh.mockResolvedValueOnce({ authenticated: true, user, sealedSession: "refreshed-session" });
+
+    const refreshed = await get("/", "mcp_gateway_session=sealed-session");
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.headers.get("set-cookie")).toContain("mcp_gateway_session=refreshed-session");
+
+    const expired = await get("/", "mcp_gateway_session=sealed-session");
+    expect(expired.status).toBe(302);
+    expect(expired.headers.get("location")).toMatch(/^https:\/\/auth\.example\.com\//);
+  });
+
+  it("should list the organizations from every page of memberships", async () => {
+    listOrganizationMemberships
+      .mockResolvedValueOnce({
+        data: [{ organizationId: "org2", organizationName: "Zeta Inc" }],
+        listMetadata: { after: "cursor1" },
+      })
+      .mockResolvedValueOnce({
+        data: [{ organizationId: "org1", organizationName: "Acme Corp" }],
+        listMetadata: {},
+      });
+
+    const html = await (await get("/", "mcp_gateway_session=sealed-session")).text();
+
+    expect(listOrganizationMemberships).toHaveBeenCalledTimes(2);
+    expect(listOrganizationMemberships).toHaveBeenLastCalledWith(expect.objectContaining({ after: "cursor1" }));
+    expect(html).toContain("Acme Corp");
+    expect(html).toContain("Zeta Inc");
+  });
+
+  it("should clear sessions that cannot be loaded and ask users to sign in", async () => {
+    authenticate.mockRejectedValue(new Error("Invalid seal"));
+
+    const response = await get("/", "mcp_gateway_session=sealed-session");
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toMatch(/^https:\/\/auth\.example\.com\//);
+    expect(response.headers.getSetCookie()).toContainEqual(expect.stringMatching(/^mcp_gateway_session=;/));
+  });
+
+  it("should show an empty state when the user has no organizations", async () => {
+    listOrganizationMemberships.mockResolvedValue({ data: [], listMetadata: {} });
+
+    const response = await get("/", "mcp_gateway_session=sealed-session");
+
+    expect(await response.text()).toContain("You are not an active member of any organization");
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Admin API for managing organization mappings at runtime
+ * Entries are validated like the mapping file, written back to the mapping store and recorded in the audit log.
+ */
+
+import express, { NextFunction, Request, Response, Router } from "express";
+import type winston from "winston";
+import { isDeepStrictEqual } from "util";
+import z from "zod";
+import type { MappingChangeEvent } from "./audit.js";
+import { describeError, MapperConfig, MappingEntry, MappingStore, validateMappingEntry } from "./mapping.js";
+import { isHostSecretReference, isSecretReference } from "./secrets.js";
+
+const REDACTED = "[redacted]";
+
+export interface AdminApiOptions {
+  mapperConfig: MapperConfig;
+  store: MappingStore | undefined;
+  logger: winston.Logger;
+  auditLogger: winston.Logger;
+  // Resolves a bearer token to the admin it belongs to, or undefined if it does not grant admin access
+  authenticate: (token: string) => Promise<string | undefined>;
+}
+
+/**
+ * Hides plaintext API keys. Secret references and encrypted values are shown, since they do not reveal the key.
+ */
+export function redactMappingEntry(entry: MappingEntry): MappingEntry {
+  if (entry.apiKey === undefined || isSecretReference(entry.apiKey)) {
+    return entry;
+  }
+  return { ...entry, apiKey: REDACTED };
+}
+
+/**
+ * Builds the audit event for a change to an organization's mapping entry, with API keys redacted.
+ */
+export function mappingChangeEvent(
+  action: MappingChangeEvent["action"],
+  organizationId: string,
+  actor: string,
+  before: MappingEntry | undefined,
+  after: MappingEntry | undefined
+): MappingChangeEvent {
+  return {
+    action,
+    organizationId,
+    actor,
+    before: before && redactMappingEntry(before),
+    after: after && redactMappingEntry(after),
+  };
+}
+
+export class AdminApi {
+  readonly router: Router;
+  private mapperConfig: MapperConfig;
+  private store: MappingStore | undefined;
+  private logger: winston.Logger;
+  private auditLogger: winston.Logger;
+  private authenticate: (token: string) => Promise<string | undefined>;
+  private changes: Promise<unknown>;
+
+  constructor(options: AdminApiOptions) {
+    this.mapperConfig = options.mapperConfig;
+    this.store = options.store;
+    this.logger = options.logger;
+    this.auditLogger = options.auditLogger;
+    this.authenticate = options.authenticate;
+    this.changes = Promise.resolve();
+
+    this.router = express.Router();
+    this.router.use(this.authMiddleware.bind(this));
+    this.router.use(express.json({ limit: "1mb" }));
+    this.router.get("/mappings", this.listHandler.bind(this));
+    this.router.get("/mappings/:organizationId", this.getHandler.bind(this));
+    this.router.post("/mappings/:organizationId", this.createHandler.bind(this));
+    this.router.put("/mappings/:organizationId", this.replaceHandler.bind(this));
+    this.router.patch("/mappings/:organizationId", this.updateHandler.bind(this));
+    this.router.delete("/mappings/:organizationId", this.deleteHandler.bind(this));
+  }
+
+  async authMiddleware(req: Request, res: Response, next: NextFunction) {
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    let actor: string | undefined;
+    try {
+      actor = token ? await this.authenticate(token) : undefined;
+    } catch (error) {
+      this.logger.error(`Could not authenticate admin API request ${req.method} ${req.path}: ${describeError(error)}`);
+      res.status(502).json({ error: "Admin credentials could not be verified. Please try again later." });
+      return;
+    }
+    if (!actor) {
+      this.logger.warn(`Rejected unauthenticated admin API request ${req.method} ${req.path}`);
+      res.set("WWW-Authenticate", 'Bearer realm="admin"').status(401).json({ error: "Invalid admin credentials." });
+      return;
+    }
+    res.locals["adminActor"] = actor;
+    next();
+  }
+
+  async listHandler(_req: Request, res: Response) {
+    const store = this.getStore(res);
+    if (!store) {
+      return;
+    }
+    const entries = await store.listEntries();
+    res.json(Object.fromEntries(Object.entries(entries).map(([id, entry]) => [id, redactMappingEntry(entry)])));
+  }
+
+  async getHandler(req: Request<{ organizationId: string }>, res: Response) {
+    const store = this.getStore(res);
+    if (!store) {
+      return;
+    }
+    const entry = await store.getEntry(req.params.organizationId);
+    if (!entry) {
+      res.status(404).json({ error: "Mapping not found." });
+      return;
+    }
+    res.json(redactMappingEntry(entry));
+  }
+
+  async createHandler(req: Request<{ organizationId: string }>, res: Response) {
+    await this.change(req, res, existing => {
+      if (existing) {
+        res.status(409).json({ error: "Mapping already exists." });
+        return undefined;
+      }
+      return req.body;
+    });
+  }
+
+  async replaceHandler(req: Request<{ organizationId: string }>, res: Response) {
+    await this.change(req, res, existing => {
+      if (!existing) {
+        res.status(404).json({ error: "Mapping not found." });
+        return undefined;
+      }
+      return req.body;
+    });
+  }
+
+  /**
+   * Merges the given fields into the entry. Fields set to null are removed, and omitted fields are kept, which
+   * allows changing an entry without resending its API key.
+   */
+  async updateHandler(req: Request<{ organizationId: string }>, res: Response) {
+    await this.change(req, res, existing => {
+      if (!existing) {
+        res.status(404).json({ error: "Mapping not found." });
+        return undefined;
+      }
+      if (typeof req.body !== "object" || req.body === null || Array.isArray(req.body)) {
+        res.status(400).json({ error: "Request body must be a JSON object." });
+        return undefined;
+      }
+      const merged: Record<string, unknown> = { ...existing, ...req.body };
+      return Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== null));
+    });
+  }
+
+  async deleteHandler(req: Request<{ organizationId: string }>, res: Response) {
+    const store = this.getStore(res);
+    if (!store) {
+      return;
+    }
+    const organizationId = req.params.organizationId;
+    await this.exclusive(async () => {
+      const existing = await store.getEntry(organizationId);
+      if (!existing || !(await store.deleteEntry(organizationId))) {
+        res.status(404).json({ error: "Mapping not found." });
+        return;
+      }
+      this.recordChange("delete", organizationId, res, existing, undefined);
+      res.status(204).end();
+    });
+  }
+
+  /**
+   * Validates and stores the entry that build returns for the current entry. build sends the response itself and
+   * returns undefined when the change cannot be made.
+   */
+  private async change(
+    req: Request<{ organizationId: string }>,
+    res: Response,
+    build: (existing: MappingEntry | undefined) => unknown
+  ): Promise<void> {
+    const store = this.getStore(res);
+    if (!store) {
+      return;
+    }
+    const organizationId = req.params.organizationId;
+    await this.exclusive(async () => {
+      const existing = await store.getEntry(organizationId);
+      const json = build(existing);
+      if (json === undefined) {
+        return;
+      }
+
+      let entry: MappingEntry;
+      try {
+        entry = validateMappingEntry(this.mapperConfig, json);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          res.status(400).json({
+            error: "Invalid mapping entry.",
+            issues: error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message })),
+          });
+          return;
+        }
+        throw error;
+      }
+      if (entry.apiKey === REDACTED) {
+        res.status(400).json({ error: "apiKey must be an API key or a secret reference, not the redacted value." });
+        return;
+      }
+      // Only references written by an operator are kept, and only as long as the entry points at the same upstream
+      if (
+        entry.apiKey !== undefined &&
+        isHostSecretReference(entry.apiKey) &&
+        (entry.apiKey !== existing?.apiKey || !isDeepStrictEqual(entry.upstream, existing.upstream))
+      ) {
+        res.status(400).json({
+          error: "apiKey must be an API key or an enc:v1: value. env: and file: references cannot be set here.",
+        });
+        return;
+      }
+      if (entry.slug !== undefined) {
+        const conflict = Object.entries(await store.listEntries()).find(
+          ([otherId, other]) => otherId !== organizationId && other.slug === entry.slug
+        );
+        if (conflict) {
+          res.status(409).json({ error: `Slug ${entry.slug} is already used by organization ${conflict[0]}.` });
+          return;
+        }
+      }
+
+      await store.putEntry(organizationId, entry);
+      this.recordChange(existing ? "update" : "create", organizationId, res, existing, entry);
+      res.status(existing ? 200 : 201).json(redactMappingEntry(entry));
+    });
+  }
+
+  private recordChange(
+    action: MappingChangeEvent["action"],
+    organizationId: string,
+    res: Response,
+    before: MappingEntry | undefined,
+    after: MappingEntry | undefined
+  ): void {
+    const actor: string = res.locals["adminActor"];
+    this.logger.info(`Mapping for organization ${organizationId} was ${action}d by ${actor}`);
+    this.auditLogger.info("Mapping change", mappingChangeEvent(action, organizationId, actor, before, after));
+  }
+
+  private getStore(res: Response): MappingStore | undefined {
+    if (!this.store) {
+      res.status(501).json({ error: "The mapping backend does not support changes through the admin API." });
+    }
+    return this.store;
+  }
+
+  /**
+   * Runs changes one at a time so that concurrent requests cannot interleave reading and writing an entry.
+   */
+  private exclusive(task: () => Promise<void>): Promise<void> {
+    const result = this.changes.then(task);
+    this.changes = result.catch(() => undefined);
+    return result;
+  }
+}
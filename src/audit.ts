@@ -0,0 +1,106 @@
+/**
+ * Audit logging of proxied MCP calls
+ * Audit events are written to their own sink, separate from the application logger.
+ */
+
+import assert from "assert";
+import { createHash } from "crypto";
+import winston from "winston";
+import Transport from "winston-transport";
+import type { Config } from "./config.js";
+import type { MappingEntry } from "./mapping.js";
+
+const WEBHOOK_TIMEOUT_MS = 5_000;
+
+export interface AuditEvent {
+  userId: string | undefined;
+  organizationId: string;
+  partition: string | undefined;
+  apiKeyFingerprint: string | undefined;
+  httpMethod: string;
+  mcpMethods: string[];
+  toolNames: string[];
+  status: number;
+  upstreamStatus: number | undefined;
+  durationMs: number;
+  completed: boolean;
+}
+
+export interface MappingChangeEvent {
+  action: "create" | "update" | "delete";
+  organizationId: string;
+  actor: string;
+  before: MappingEntry | undefined;
+  after: MappingEntry | undefined;
+}
+
+/**
+ * Identifies an API key in audit events without revealing it.
+ */
+export function fingerprintApiKey(apiKey: string): string {
+  return "sha256:" + createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
+}
+
+/**
+ * Posts each audit event as JSON to a webhook. Delivery failures, including webhooks that do not respond within
+ * the timeout, are emitted as warnings, which the audit logger passes on to its own "warn" listeners.
+ */
+export class WebhookTransport extends Transport {
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(options: Transport.TransportStreamOptions & { url: string; timeoutMs?: number }) {
+    super(options);
+    this.url = options.url;
+    this.timeoutMs = options.timeoutMs ?? WEBHOOK_TIMEOUT_MS;
+  }
+
+  override log(info: object, callback: () => void): void {
+    fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(info),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    })
+      .then(response => {
+        if (!response.ok) {
+          this.emit("warn", new Error(`Audit webhook responded with status ${response.status}`));
+        }
+      })
+      .catch(error => this.emit("warn", error));
+    callback();
+  }
+}
+
+/**
+ * Creates the audit logger for the configured sink. With no sink configured the logger is silent.
+ */
+export function createAuditLogger(config: Config): winston.Logger {
+  const transports: Transport[] = [];
+  switch (config.auditLog) {
+    case "stdout":
+      transports.push(new winston.transports.Console());
+      break;
+    case "file":
+      transports.push(
+        new winston.transports.File({
+          filename: config.auditLogFile,
+          maxsize: config.auditLogMaxSize,
+          maxFiles: config.auditLogMaxFiles,
+          tailable: true,
+        })
+      );
+      break;
+    case "webhook":
+      assert(config.auditLogWebhookUrl, "auditLogWebhookUrl is required when auditLog is webhook");
+      transports.push(new WebhookTransport({ url: config.auditLogWebhookUrl }));
+      break;
+  }
+
+  return winston.createLogger({
+    level: "info",
+    format: winston.format.combine(winston.format.timestamp(), winston.format.json()),
+    transports,
+    silent: transports.length === 0,
+  });
+}
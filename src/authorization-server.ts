@@ -0,0 +1,595 @@
+/**
+ * Gateway-issued OAuth authorization code flow with PKCE
+ * When the gateway acts as the authorization server, users sign in through WorkOS AuthKit and the gateway issues
+ * its own short-lived access tokens and refresh tokens, each scoped to a single organization. Client registrations,
+ * authorization requests, codes and refresh tokens are signed by the gateway instead of being stored, so that they
+ * survive restarts and can be redeemed at any instance sharing the signing key.
+ */
+
+import { WorkOS } from "@workos-inc/node";
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  JsonWebKey,
+  KeyObject,
+  randomUUID,
+} from "crypto";
+import express, { Request, Response, Router } from "express";
+import { JWTPayload, jwtVerify, SignJWT } from "jose";
+import type winston from "winston";
+import { LruCache } from "./cache.js";
+import { describeError, MaybePromise } from "./mapping.js";
+import type { CachedMembership } from "./membership.js";
+import { isRedirectUriAllowed } from "./registration.js";
+
+const SIGNING_ALGORITHM = "ES256";
+const AUTHORIZATION_REQUEST_TTL_SECONDS = 10 * 60;
+const AUTHORIZATION_CODE_TTL_SECONDS = 60;
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9._~-]{43,128}$/;
+const REFRESH_TOKEN_CACHE_SIZE = 100_000;
+
+// Distinguishes the gateway's internal tokens, which share the signing key with access tokens
+type TokenUse = "client" | "authorization_request" | "authorization_code" | "refresh_token";
+
+// An RFC 6749 error, answered with its error code and the message as the error description
+class OAuthError extends Error {
+  readonly code: string;
+
+  constructor(code: string, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+export interface AuthorizationServerOptions {
+  workos: WorkOS;
+  // WorkOS client that users sign in with
+  clientId: string;
+  // Base URL of the gateway, which is also the issuer of its tokens
+  issuer: string;
+  // PEM-encoded EC P-256 private key. An ephemeral key is generated when it is not set.
+  signingKey: string | undefined;
+  accessTokenTtlMs: number;
+  refreshTokenTtlMs: number;
+  redirectUriPatterns: string[];
+  // Preconfigured public client, which may use any redirect URI matching the patterns
+  staticClientId: string;
+  scopes: string[];
+  // Maps a resource indicator to the organization whose MCP endpoint it identifies
+  resolveResource: (resource: string) => MaybePromise<string | undefined>;
+  // Returns the resource that tokens are issued for when the client does not name one
+  resourceUrl: (organizationId: string) => string;
+  getMembership: (userId: string, organizationId: string) => Promise<CachedMembership>;
+  logger: winston.Logger;
+  auditLogger: winston.Logger;
+}
+
+function stringParam(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Computes the RFC 7638 thumbprint of an EC public key, which serves as its key ID.
+ */
+function jwkThumbprint(jwk: JsonWebKey): string {
+  const members = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+  return createHash("sha256").update(members).digest("base64url");
+}
+
+export class AuthorizationServer {
+  readonly router: Router;
+  private workos: WorkOS;
+  private clientId: string;
+  private issuer: string;
+  private privateKey: KeyObject;
+  private publicKey: KeyObject;
+  private publicJwk: JsonWebKey;
+  private keyId: string;
+  private accessTokenTtlMs: number;
+  private refreshTokenTtlMs: number;
+  private redirectUriPatterns: string[];
+  private staticClientId: string;
+  private scopes: string[];
+  private resolveResource: (resource: string) => MaybePromise<string | undefined>;
+  private resourceUrl: (organizationId: string) => string;
+  private getMembership: (userId: string, organizationId: string) => Promise<CachedMembership>;
+  private redeemedCodes: LruCache<true>;
+  private usedRefreshTokens: LruCache<true>;
+  private revokedRefreshTokenFamilies: LruCache<true>;
+  private logger: winston.Logger;
+  private auditLogger: winston.Logger;
+
+  constructor(options: AuthorizationServerOptions) {
+    this.workos = options.workos;
+    this.clientId = options.clientId;
+    this.issuer = options.issuer;
+    this.accessTokenTtlMs = options.accessTokenTtlMs;
+    this.refreshTokenTtlMs = options.refreshTokenTtlMs;
+    this.redirectUriPatterns = options.redirectUriPatterns;
+    this.staticClientId = options.staticClientId;
+    this.scopes = options.scopes;
+    this.resolveResource = options.resolveResource;
+    this.resourceUrl = options.resourceUrl;
+    this.getMembership = options.getMembership;
+    this.redeemedCodes = new LruCache(10_000);
+    this.usedRefreshTokens = new LruCache(REFRESH_TOKEN_CACHE_SIZE);
+    this.revokedRefreshTokenFamilies = new LruCache(REFRESH_TOKEN_CACHE_SIZE);
+    this.logger = options.logger;
+    this.auditLogger = options.auditLogger;
+
+    if (options.signingKey === undefined) {
+      this.logger.warn(
+        "No signing key is configured, so tokens are signed with an ephemeral key. They will not be accepted " +
+          "after a restart or by other instances."
+      );
+      this.privateKey = generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey;
+    } else {
+      this.privateKey = createPrivateKey(options.signingKey);
+      if (
+        this.privateKey.asymmetricKeyType !== "ec" ||
+        this.privateKey.asymmetricKeyDetails?.namedCurve !== "prime256v1"
+      ) {
+        throw new Error("The signing key must be an EC P-256 private key");
+      }
+    }
+    this.publicKey = createPublicKey(this.privateKey);
+    const jwk = this.publicKey.export({ format: "jwk" });
+    this.keyId = jwkThumbprint(jwk);
+    this.publicJwk = { ...jwk, kid: this.keyId, use: "sig", alg: SIGNING_ALGORITHM };
+
+    this.router = express.Router();
+    this.router.get("/authorize", this.authorizeHandler.bind(this));
+    this.router.get("/callback", this.callbackHandler.bind(this));
+    this.router.post("/token", express.urlencoded({ extended: false, limit: "64kb" }), this.tokenHandler.bind(this));
+    this.router.get("/.well-known/jwks.json", (_req: Request, res: Response) => {
+      res.set("Cache-Control", "public, max-age=3600").json({ keys: [this.publicJwk] });
+    });
+  }
+
+  /**
+   * Returns the RFC 8414 metadata describing the gateway's endpoints.
+   */
+  metadata(): Record<string, unknown> {
+    return {
+      issuer: this.issuer,
+      authorization_endpoint: `${this.issuer}/authorize`,
+      token_endpoint: `${this.issuer}/token`,
+      jwks_uri: `${this.issuer}/.well-known/jwks.json`,
+      scopes_supported: this.scopes,
+      response_types_supported: ["code"],
+      grant_types_supported: ["authorization_code", "refresh_token"],
+      token_endpoint_auth_methods_supported: ["none"],
+      code_challenge_methods_supported: ["S256"],
+      authorization_response_iss_parameter_supported: true,
+    };
+  }
+
+  /**
+   * Issues the client ID for a dynamic client registration. The ID is a signed record of the registered redirect
+   * URIs, so that any instance can check authorization requests against them without storing registrations.
+   */
+  registerClient(redirectUris: string[]): Promise<string> {
+    return this.sign("client", { redirect_uris: redirectUris }, this.issuer, undefined);
+  }
+
+  /**
+   * Verifies an access token issued by the gateway for an organization's MCP endpoint, given the URL that the
+   * client connected to. Tokens issued without a resource indicator are accepted at any of the organization's URLs.
+   */
+  async verifyAccessToken(
+    token: string,
+    organizationId: string,
+    resource: string = this.resourceUrl(organizationId)
+  ): Promise<JWTPayload> {
+    const { payload } = await jwtVerify(token, this.publicKey, {
+      issuer: this.issuer,
+      audience: [resource, this.resourceUrl(organizationId)],
+      algorithms: [SIGNING_ALGORITHM],
+      typ: "at+jwt",
+    });
+    // A slug that moved to another organization must not carry tokens over to it
+    if (payload["org_id"] !== organizationId) {
+      throw new Error(`Access token was issued for another organization than ${organizationId}`);
+    }
+    return payload;
+  }
+
+  /**
+   * Validates the client's authorization request and sends the user to AuthKit to sign in. The request travels
+   * through AuthKit as the signed state parameter.
+   */
+  async authorizeHandler(req: Request, res: Response) {
+    const clientId = stringParam(req.query["client_id"]);
+    const redirectUri = stringParam(req.query["redirect_uri"]);
+    // Errors about the client or redirect URI must not be sent to the redirect URI (RFC 6749 section 4.1.2.1)
+    if (!clientId || !redirectUri) {
+      res.status(400).json({ error: "invalid_request", error_description: "client_id and redirect_uri are required." });
+      return;
+    }
+    let registeredRedirectUris: string[] | undefined;
+    try {
+      registeredRedirectUris = await this.registeredRedirectUris(clientId);
+    } catch (error) {
+      this.logger.warn(`Rejected authorization request for an unknown client: ${describeError(error)}`);
+      res.status(400).json({ error: "invalid_client", error_description: "The client is not registered." });
+      return;
+    }
+    if (
+      !isRedirectUriAllowed(this.redirectUriPatterns, redirectUri) ||
+      (registeredRedirectUris !== undefined && !registeredRedirectUris.includes(redirectUri))
+    ) {
+      this.logger.warn(`Rejected authorization request for client ${clientId} with redirect URI ${redirectUri}`);
+      res.status(400).json({
+        error: "invalid_request",
+        error_description: `Redirect URI ${redirectUri} is not allowed.`,
+      });
+      return;
+    }
+
+    const state = stringParam(req.query["state"]);
+    try {
+      if (req.query["response_type"] !== "code") {
+        throw new OAuthError("unsupported_response_type", "Only the code response type is supported.");
+      }
+      const codeChallenge = stringParam(req.query["code_challenge"]);
+      if (!codeChallenge || req.query["code_challenge_method"] !== "S256") {
+        throw new OAuthError("invalid_request", "A code_challenge with the S256 method is required.");
+      }
+      const scope = this.grantedScope(stringParam(req.query["scope"]));
+      const resource = stringParam(req.query["resource"]);
+      const organizationId = resource === undefined ? undefined : await this.resolveResource(resource);
+      if (resource !== undefined && organizationId === undefined) {
+        throw new OAuthError("invalid_target", `Resource ${resource} is not served by this gateway.`);
+      }
+
+      const request = await this.sign(
+        "authorization_request",
+        {
+          client_id: clientId,
+          redirect_uri: redirectUri,
+          state,
+          code_challenge: codeChallenge,
+          scope,
+          org_id: organizationId,
+          resource,
+        },
+        `${this.issuer}/callback`,
+        AUTHORIZATION_REQUEST_TTL_SECONDS * 1000
+      );
+      res.redirect(
+        this.workos.userManagement.getAuthorizationUrl({
+          provider: "authkit",
+          clientId: this.clientId,
+          redirectUri: `${this.issuer}/callback`,
+          state: request,
+          ...(organizationId !== undefined && { organizationId }),
+        })
+      );
+    } catch (error) {
+      this.redirectWithError(res, redirectUri, state, error);
+    }
+  }
+
+  /**
+   * Completes the sign-in at AuthKit and returns an authorization code to the client, once the user is known to
+   * be a member of the organization.
+   */
+  async callbackHandler(req: Request, res: Response) {
+    let request: JWTPayload;
+    try {
+      request = await this.verify(
+        stringParam(req.query["state"]) ?? "",
+        "authorization_request",
+        `${this.issuer}/callback`
+      );
+    } catch {
+      res.status(400).json({
+        error: "invalid_request",
+        error_description: "The authorization request is invalid or has expired.",
+      });
+      return;
+    }
+    const redirectUri = String(request["redirect_uri"]);
+    const clientId = String(request["client_id"]);
+    const state = stringParam(request["state"]);
+
+    try {
+      const code = stringParam(req.query["code"]);
+      if (!code) {
+        throw new OAuthError("access_denied", "The user did not sign in.");
+      }
+      let userId: string;
+      let signedInOrganizationId: string | undefined;
+      try {
+        const authentication = await this.workos.userManagement.authenticateWithCode({ clientId: this.clientId, code });
+        userId = authentication.user.id;
+        signedInOrganizationId = authentication.organizationId;
+      } catch (error) {
+        this.logger.error(`Could not complete the sign-in with WorkOS: ${describeError(error)}`);
+        throw new OAuthError("server_error", "The sign-in could not be completed.");
+      }
+
+      // Without a resource indicator, the organization the user picked while signing in is used
+      const organizationId = stringParam(request["org_id"]) ?? signedInOrganizationId;
+      if (organizationId === undefined) {
+        throw new OAuthError("invalid_target", "No organization was selected.");
+      }
+      const membership = await this.getMembership(userId, organizationId);
+      if (!membership.isMember) {
+        this.logger.warn(`User ${userId} is not a member of the organization ${organizationId}`);
+        throw new OAuthError("access_denied", "The user is not a member of the organization.");
+      }
+
+      const authorizationCode = await this.sign(
+        "authorization_code",
+        {
+          sub: userId,
+          client_id: clientId,
+          redirect_uri: redirectUri,
+          code_challenge: request["code_challenge"],
+          scope: request["scope"],
+          org_id: organizationId,
+          resource: stringParam(request["resource"]) ?? this.resourceUrl(organizationId),
+        },
+        `${this.issuer}/token`,
+        AUTHORIZATION_CODE_TTL_SECONDS * 1000
+      );
+      this.logger.info(`Authorized client ${clientId} for user ${userId} in organization ${organizationId}`);
+      this.auditLogger.info("Authorization grant", {
+        userId,
+        organizationId,
+        clientId,
+        redirectUri,
+        scope: request["scope"],
+      });
+      res.redirect(this.redirectUrl(redirectUri, { code: authorizationCode, state, iss: this.issuer }));
+    } catch (error) {
+      this.redirectWithError(res, redirectUri, state, error);
+    }
+  }
+
+  async tokenHandler(req: Request, res: Response) {
+    res.set({ "Cache-Control": "no-store", Pragma: "no-cache" });
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    try {
+      const clientId = stringParam(body["client_id"]);
+      if (!clientId) {
+        throw new OAuthError("invalid_request", "client_id is required.");
+      }
+      try {
+        await this.registeredRedirectUris(clientId);
+      } catch {
+        throw new OAuthError("invalid_client", "The client is not registered.");
+      }
+      switch (body["grant_type"]) {
+        case "authorization_code":
+          res.json(await this.exchangeAuthorizationCode(clientId, body));
+          return;
+        case "refresh_token":
+          res.json(await this.refresh(clientId, body));
+          return;
+        default:
+          throw new OAuthError("unsupported_grant_type", "Only authorization_code and refresh_token are supported.");
+      }
+    } catch (error) {
+      if (!(error instanceof OAuthError)) {
+        this.logger.error(`Token request failed: ${describeError(error)}`);
+        res.status(500).json({ error: "server_error", error_description: "The token request failed." });
+        return;
+      }
+      res.status(400).json({ error: error.code, error_description: error.message });
+    }
+  }
+
+  private async exchangeAuthorizationCode(clientId: string, body: Record<string, unknown>) {
+    const code = stringParam(body["code"]);
+    const redirectUri = stringParam(body["redirect_uri"]);
+    const codeVerifier = stringParam(body["code_verifier"]);
+    if (!code || !redirectUri || !codeVerifier) {
+      throw new OAuthError("invalid_request", "code, redirect_uri and code_verifier are required.");
+    }
+
+    let grant: JWTPayload;
+    try {
+      grant = await this.verify(code, "authorization_code", `${this.issuer}/token`);
+    } catch {
+      throw new OAuthError("invalid_grant", "The authorization code is invalid or has expired.");
+    }
+    if (grant["client_id"] !== clientId || grant["redirect_uri"] !== redirectUri) {
+      throw new OAuthError("invalid_grant", "The authorization code was issued to another client.");
+    }
+    const challenge = createHash("sha256").update(codeVerifier).digest("base64url");
+    if (!CODE_VERIFIER_PATTERN.test(codeVerifier) || challenge !== grant["code_challenge"]) {
+      throw new OAuthError("invalid_grant", "The code verifier does not match the code challenge.");
+    }
+    // Codes can be redeemed once; this is tracked per instance for as long as the code is valid
+    const jti = String(grant.jti);
+    if (this.redeemedCodes.get(jti)) {
+      throw new OAuthError("invalid_grant", "The authorization code has already been used.");
+    }
+    this.redeemedCodes.set(jti, true, AUTHORIZATION_CODE_TTL_SECONDS * 1000);
+
+    const userId = String(grant.sub);
+    const organizationId = String(grant["org_id"]);
+    const resource = String(grant["resource"]);
+    const scope = String(grant["scope"]);
+    const membership = await this.getMembership(userId, organizationId);
+    if (!membership.isMember) {
+      this.logger.warn(`Refused to redeem a code of user ${userId}, who left the organization ${organizationId}`);
+      throw new OAuthError("invalid_grant", "The user is no longer a member of the organization.");
+    }
+    return {
+      ...(await this.issueAccessToken(userId, organizationId, resource, clientId, scope, membership)),
+      refresh_token: await this.sign(
+        "refresh_token",
+        { sub: userId, client_id: clientId, scope, org_id: organizationId, resource, family: randomUUID() },
+        `${this.issuer}/token`,
+        this.refreshTokenTtlMs
+      ),
+    };
+  }
+
+  /**
+   * Issues a new access token and refresh token for a refresh token. Membership is looked up again, so that users
+   * who have left the organization cannot keep refreshing. Each refresh token can be used once: presenting one
+   * again revokes every refresh token descended from the same authorization code, since either the client or an
+   * attacker holds a stolen copy. Used tokens and revoked families are tracked per instance.
+   */
+  private async refresh(clientId: string, body: Record<string, unknown>) {
+    let grant: JWTPayload;
+    try {
+      grant = await this.verify(stringParam(body["refresh_token"]) ?? "", "refresh_token", `${this.issuer}/token`);
+    } catch {
+      throw new OAuthError("invalid_grant", "The refresh token is invalid or has expired.");
+    }
+    if (grant["client_id"] !== clientId) {
+      throw new OAuthError("invalid_grant", "The refresh token was issued to another client.");
+    }
+
+    const userId = String(grant.sub);
+    const organizationId = String(grant["org_id"]);
+    const jti = String(grant.jti);
+    // Refresh tokens issued before rotation was introduced start their own family
+    const family = stringParam(grant["family"]) ?? jti;
+    if (this.revokedRefreshTokenFamilies.get(family)) {
+      throw new OAuthError("invalid_grant", "The refresh token has been revoked.");
+    }
+    if (this.usedRefreshTokens.get(jti)) {
+      this.revokedRefreshTokenFamilies.set(family, true, this.refreshTokenTtlMs);
+      this.logger.warn(`Revoked the refresh tokens of user ${userId} in organization ${organizationId} after reuse`);
+      this.auditLogger.info("Refresh token reuse", { userId, organizationId, clientId });
+      throw new OAuthError("invalid_grant", "The refresh token has already been used.");
+    }
+    this.usedRefreshTokens.set(jti, true, Number(grant.exp) * 1000 - Date.now());
+
+    const membership = await this.getMembership(userId, organizationId);
+    if (!membership.isMember) {
+      this.logger.warn(`Refused to refresh a token of user ${userId}, who left the organization ${organizationId}`);
+      throw new OAuthError("invalid_grant", "The user is no longer a member of the organization.");
+    }
+    // Refresh tokens issued before resources were recorded in them were for the organization's ID URL
+    const resource = stringParam(grant["resource"]) ?? this.resourceUrl(organizationId);
+    const scope = String(grant["scope"]);
+    return {
+      ...(await this.issueAccessToken(userId, organizationId, resource, clientId, scope, membership)),
+      refresh_token: await this.sign(
+        "refresh_token",
+        { sub: userId, client_id: clientId, scope, org_id: organizationId, resource, family },
+        `${this.issuer}/token`,
+        this.refreshTokenTtlMs
+      ),
+    };
+  }
+
+  /**
+   * Returns the redirect URIs that a dynamically registered client may use, or undefined for the preconfigured
+   * client, which may use any allowed redirect URI. Throws for clients that were not registered at this gateway.
+   */
+  private async registeredRedirectUris(clientId: string): Promise<string[] | undefined> {
+    if (clientId === this.staticClientId) {
+      return undefined;
+    }
+    const registration = await this.verify(clientId, "client", this.issuer);
+    const redirectUris = registration["redirect_uris"];
+    if (!Array.isArray(redirectUris) || !redirectUris.every(uri => typeof uri === "string")) {
+      throw new Error("Client registration has no redirect URIs");
+    }
+    return redirectUris;
+  }
+
+  private async issueAccessToken(
+    userId: string,
+    organizationId: string,
+    resource: string,
+    clientId: string,
+    scope: string,
+    membership: CachedMembership
+  ) {
+    const accessToken = await new SignJWT({
+      client_id: clientId,
+      scope,
+      org_id: organizationId,
+      role: membership.role,
+      permissions: membership.permissions,
+    })
+      .setProtectedHeader({ alg: SIGNING_ALGORITHM, typ: "at+jwt", kid: this.keyId })
+      .setIssuer(this.issuer)
+      .setSubject(userId)
+      .setAudience(resource)
+      .setIssuedAt()
+      .setExpirationTime(Math.floor((Date.now() + this.accessTokenTtlMs) / 1000))
+      .setJti(randomUUID())
+      .sign(this.privateKey);
+    this.logger.debug(`Issued an access token for user ${userId} in organization ${organizationId}`);
+    return {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: Math.floor(this.accessTokenTtlMs / 1000),
+      scope,
+    };
+  }
+
+  /**
+   * Returns the requested scopes, or all supported scopes when none were requested.
+   */
+  private grantedScope(requested: string | undefined): string {
+    if (requested === undefined) {
+      return this.scopes.join(" ");
+    }
+    const unsupported = requested.split(" ").filter(scope => scope !== "" && !this.scopes.includes(scope));
+    if (unsupported.length > 0) {
+      throw new OAuthError("invalid_scope", `Scope ${unsupported[0]} is not supported.`);
+    }
+    return requested;
+  }
+
+  /**
+   * Signs one of the gateway's internal tokens. Tokens without a lifetime, such as client IDs, do not expire.
+   */
+  private sign(tokenUse: TokenUse, claims: JWTPayload, audience: string, ttlMs: number | undefined): Promise<string> {
+    const jwt = new SignJWT({ ...claims, token_use: tokenUse })
+      .setProtectedHeader({ alg: SIGNING_ALGORITHM, typ: "JWT", kid: this.keyId })
+      .setIssuer(this.issuer)
+      .setAudience(audience)
+      .setIssuedAt()
+      .setJti(randomUUID());
+    if (ttlMs !== undefined) {
+      jwt.setExpirationTime(Math.floor((Date.now() + ttlMs) / 1000));
+    }
+    return jwt.sign(this.privateKey);
+  }
+
+  private async verify(token: string, tokenUse: TokenUse, audience: string): Promise<JWTPayload> {
+    const { payload } = await jwtVerify(token, this.publicKey, {
+      issuer: this.issuer,
+      audience,
+      algorithms: [SIGNING_ALGORITHM],
+      typ: "JWT",
+    });
+    if (payload["token_use"] !== tokenUse) {
+      throw new Error(`Expected a ${tokenUse} token`);
+    }
+    return payload;
+  }
+
+  private redirectWithError(res: Response, redirectUri: string, state: string | undefined, error: unknown): void {
+    if (!(error instanceof OAuthError)) {
+      this.logger.error(`Authorization request failed: ${describeError(error)}`);
+      error = new OAuthError("server_error", "The authorization request failed.");
+    }
+    const { code, message } = error as OAuthError;
+    res.redirect(this.redirectUrl(redirectUri, { error: code, error_description: message, state, iss: this.issuer }));
+  }
+
+  private redirectUrl(redirectUri: string, params: Record<string, string | undefined>): string {
+    const url = new URL(redirectUri);
+    for (const [name, value] of Object.entries(params)) {
+      if (value !== undefined) {
+        url.searchParams.set(name, value);
+      }
+    }
+    return url.toString();
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Bounded in-memory cache with per-entry expiry.
+ * Entries are evicted in least-recently-used order once the cache is full.
+ */
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export class LruCache<V> {
+  private maxSize: number;
+  private entries: Map<string, CacheEntry<V>>;
+
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+    this.entries = new Map();
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V, ttlMs: number): void {
+    if (this.maxSize <= 0 || ttlMs <= 0) {
+      return;
+    }
+    this.entries.delete(key);
+    while (this.entries.size >= this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Removes every entry for which the predicate returns true, including expired ones.
+   */
+  deleteMatching(predicate: (key: string, value: V) => boolean): void {
+    for (const [key, entry] of this.entries) {
+      if (predicate(key, entry.value)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
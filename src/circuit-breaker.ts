@@ -0,0 +1,77 @@
+/**
+ * Circuit breaking for upstream MCP servers
+ * After a run of consecutive failures the circuit opens and requests fail fast. Once the reset timeout has passed
+ * the circuit is half-open: requests are let through again, and the next outcome closes or reopens it.
+ */
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit, 0 disables the breaker
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private onStateChange: ((state: CircuitState, previous: CircuitState) => void) | undefined;
+  private state: CircuitState;
+  private failures: number;
+  private openedAt: number;
+
+  constructor(options: CircuitBreakerOptions) {
+    this.failureThreshold = options.failureThreshold;
+    this.resetTimeoutMs = options.resetTimeoutMs;
+    this.onStateChange = options.onStateChange;
+    this.state = "closed";
+    this.failures = 0;
+    this.openedAt = 0;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Returns whether a request may be sent, moving an open circuit to half-open once the reset timeout has passed.
+   */
+  allowRequest(): boolean {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.transition("half_open");
+    }
+    return this.state !== "open";
+  }
+
+  /**
+   * Milliseconds until an open circuit lets a request through again.
+   */
+  retryAfterMs(): number {
+    return this.state === "open" ? Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now()) : 0;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  recordFailure(): void {
+    if (this.failureThreshold <= 0) {
+      return;
+    }
+    this.failures++;
+    if (this.state === "half_open" || (this.state === "closed" && this.failures >= this.failureThreshold)) {
+      this.openedAt = Date.now();
+      this.transition("open");
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.onStateChange?.(state, previous);
+  }
+}
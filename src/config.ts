@@ -3,32 +3,139 @@ import { readFileSync } from "fs";
 import { resolve } from "path";
 import { createLogger } from "./logger.js";
 import type winston from "winston";
+import { MetadataOverrides, MetadataOverridesSchema } from "./oauth-metadata.js";
+import type { RateLimit } from "./rate-limit.js";
+import { type ClientRegistrationMode, hasFixedHost } from "./registration.js";
 
 export interface Config {
+  accessTokenTtl: number;
+  adminToken: string | undefined;
+  adminOrganizationId: string | undefined;
+  adminRole: string;
+  adminPort: number | undefined;
+  auditLog: "none" | "stdout" | "file" | "webhook";
+  auditLogFile: string;
+  auditLogMaxSize: number;
+  auditLogMaxFiles: number;
+  auditLogWebhookUrl: string | undefined;
+  authorizationMode: "membership" | "claims";
+  authorizationServer: "workos" | "gateway";
+  authorizationServerMetadataTimeout: number;
+  authorizationServerMetadataCacheTtl: number;
+  authorizationServerMetadataOverrides: MetadataOverrides;
   baseUrl: string;
+  circuitBreakerThreshold: number;
+  circuitBreakerResetTimeout: number;
+  jwksCacheMaxAge: number;
+  jwksCooldown: number;
+  jwksPrewarm: boolean;
+  clientRegistration: "off" | ClientRegistrationMode;
+  clientRegistrationRedirectUris: string[];
+  clientRegistrationUrl: string;
+  clientRegistrationClientId: string;
   port: number;
+  protectedResourceScopes: string[];
   logLevel: "debug" | "info" | "warn" | "error";
   logFormat: "json" | "pretty";
+  masterKey: string | undefined;
+  mappingBackend: "file" | "http" | "sql";
   mappingFile: string | undefined;
+  mappingReloadInterval: number;
+  mappingUrl: string | undefined;
+  mappingUrlToken: string | undefined;
+  mappingDatabaseUrl: string | undefined;
+  mappingTable: string;
+  mappingCacheTtl: number;
+  metricsEnabled: boolean;
+  metricsPort: number | undefined;
+  metricsToken: string | undefined;
+  membershipCacheTtl: number;
+  membershipCacheNegativeTtl: number;
+  membershipCacheMaxSize: number;
   ragieApiKey: string;
   ragieBaseUrl: string;
+  refreshTokenTtl: number;
+  shutdownGracePeriod: number;
+  signingKey: string | undefined;
+  tokenCacheMaxSize: number;
   strictApiKeys: boolean;
   strictMapping: boolean;
+  tenantRouting: "path" | "slug" | "subdomain";
+  upstreamConnectTimeout: number;
+  upstreamResponseTimeout: number;
+  upstreamRetries: number;
+  upstreamRetryDelay: number;
+  userRateLimit: RateLimit;
+  organizationRateLimit: RateLimit;
+  rateLimitRedisUrl: string | undefined;
   workosApiKey: string;
   workosAuthorizationServerUrl: string;
   workosClientId: string;
+  workosCookiePassword: string | undefined;
+  workosWebhookSecret: string | undefined;
+  webhookPartitionTemplate: string;
 }
 
-const booleanSchema = z.preprocess(val => {
-  if (val === undefined || val === "") return false;
-  const str = String(val).toLowerCase();
-  return str === "true" || str === "1";
-}, z.boolean().default(false));
+// Comma-separated list
+const listSchema = (defaultValue: string = "") =>
+  z
+    .string()
+    .default(defaultValue)
+    .transform(value =>
+      value
+        .split(",")
+        .map(item => item.trim())
+        .filter(item => item !== "")
+    );
+
+const booleanSchema = (defaultValue: boolean = false) =>
+  z.preprocess(val => {
+    if (val === undefined || val === "") return defaultValue;
+    const str = String(val).toLowerCase();
+    return str === "true" || str === "1";
+  }, z.boolean().default(defaultValue));
 
 export function getConfigFromEnv(): Config {
   const envVarSchema = z.object({
+    ACCESS_TOKEN_TTL: z.coerce.number().int().min(1).default(300),
+    ADMIN_TOKEN: z.string().min(16).optional(),
+    ADMIN_ORGANIZATION_ID: z.string().optional(),
+    ADMIN_ROLE: z.string().default("admin"),
+    ADMIN_PORT: z.coerce.number().optional(),
+    AUDIT_LOG: z.enum(["none", "stdout", "file", "webhook"]).default("none"),
+    AUDIT_LOG_FILE: z.string().default("audit.log"),
+    AUDIT_LOG_MAX_SIZE: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .default(10 * 1024 * 1024),
+    AUDIT_LOG_MAX_FILES: z.coerce.number().int().min(1).default(5),
+    AUDIT_LOG_WEBHOOK_URL: z.string().optional(),
+    AUTHORIZATION_MODE: z.enum(["membership", "claims"]).default("membership"),
+    AUTHORIZATION_SERVER: z.enum(["workos", "gateway"]).default("workos"),
+    AUTHORIZATION_SERVER_METADATA_TIMEOUT: z.coerce.number().min(0).default(5),
+    AUTHORIZATION_SERVER_METADATA_CACHE_TTL: z.coerce.number().min(0).default(300),
+    AUTHORIZATION_SERVER_METADATA_OVERRIDES: z
+      .string()
+      .transform((value, ctx) => {
+        try {
+          return JSON.parse(value) as unknown;
+        } catch {
+          ctx.addIssue({ code: "custom", message: "Must be a JSON object" });
+          return z.NEVER;
+        }
+      })
+      .pipe(MetadataOverridesSchema)
+      .default({}),
     BASE_URL: z.string().optional(),
+    CIRCUIT_BREAKER_THRESHOLD: z.coerce.number().int().min(0).default(5),
+    CIRCUIT_BREAKER_RESET_TIMEOUT: z.coerce.number().min(0).default(30),
+    CLIENT_REGISTRATION: z.enum(["off", "forward", "static"]).default("off"),
+    CLIENT_REGISTRATION_REDIRECT_URIS: listSchema(),
+    CLIENT_REGISTRATION_URL: z.string().optional(),
+    CLIENT_REGISTRATION_CLIENT_ID: z.string().optional(),
     PORT: z.coerce.number().default(3000),
+    PROTECTED_RESOURCE_SCOPES: listSchema("openid,profile,email,offline_access"),
     LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default("info"),
     LOG_FORMAT: z.enum(["json", "pretty"]).default("pretty"),
     RAGIE_API_KEY: z.string(),
@@ -36,9 +143,56 @@ export function getConfigFromEnv(): Config {
     WORKOS_API_KEY: z.string(),
     WORKOS_AUTHORIZATION_SERVER_URL: z.string(),
     WORKOS_CLIENT_ID: z.string(),
+    WORKOS_COOKIE_PASSWORD: z.string().optional(),
+    WORKOS_WEBHOOK_SECRET: z.string().optional(),
+    WEBHOOK_PARTITION_TEMPLATE: z
+      .string()
+      .regex(/^(?:[^{}]|\{(?:id|slug)\})+$/, "Only {id} and {slug} placeholders are supported")
+      .default("{id}"),
+    GATEWAY_SIGNING_KEY: z.string().optional(),
+    JWKS_CACHE_MAX_AGE: z.coerce.number().min(0).default(600),
+    JWKS_COOLDOWN: z.coerce.number().min(0).default(30),
+    JWKS_PREWARM: booleanSchema(true),
+    GATEWAY_MASTER_KEY: z
+      .string()
+      .refine(value => Buffer.from(value, "base64").length === 32, "Must be 32 bytes encoded as base64")
+      .optional(),
+    MAPPING_BACKEND: z.enum(["file", "http", "sql"]).default("file"),
     MAPPING_FILE: z.string().optional(),
-    STRICT_API_KEYS: booleanSchema,
-    STRICT_MAPPING: booleanSchema,
+    MAPPING_RELOAD_INTERVAL: z.coerce.number().min(0).default(5),
+    MAPPING_URL: z.string().optional(),
+    MAPPING_URL_TOKEN: z.string().optional(),
+    MAPPING_DATABASE_URL: z.string().optional(),
+    MAPPING_TABLE: z
+      .string()
+      .regex(/^[A-Za-z_][A-Za-z0-9_.]*$/)
+      .default("organization_mappings"),
+    MAPPING_CACHE_TTL: z.coerce.number().min(0).default(60),
+    METRICS_ENABLED: booleanSchema(),
+    METRICS_PORT: z.coerce.number().optional(),
+    METRICS_TOKEN: z.string().optional(),
+    MEMBERSHIP_CACHE_TTL: z.coerce.number().min(0).default(60),
+    MEMBERSHIP_CACHE_NEGATIVE_TTL: z.coerce.number().min(0).default(10),
+    MEMBERSHIP_CACHE_MAX_SIZE: z.coerce.number().int().min(0).default(10000),
+    REFRESH_TOKEN_TTL: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .default(30 * 24 * 60 * 60),
+    SHUTDOWN_GRACE_PERIOD: z.coerce.number().min(0).default(30),
+    STRICT_API_KEYS: booleanSchema(),
+    STRICT_MAPPING: booleanSchema(),
+    TOKEN_CACHE_MAX_SIZE: z.coerce.number().int().min(0).default(10000),
+    TENANT_ROUTING: z.enum(["path", "slug", "subdomain"]).default("path"),
+    UPSTREAM_CONNECT_TIMEOUT: z.coerce.number().min(0).default(5),
+    UPSTREAM_RESPONSE_TIMEOUT: z.coerce.number().min(0).default(60),
+    UPSTREAM_RETRIES: z.coerce.number().int().min(0).default(2),
+    UPSTREAM_RETRY_DELAY: z.coerce.number().min(0).default(0.2),
+    RATE_LIMIT_USER_REQUESTS_PER_MINUTE: z.coerce.number().min(0).default(0),
+    RATE_LIMIT_USER_BURST: z.coerce.number().int().min(1).optional(),
+    RATE_LIMIT_ORGANIZATION_REQUESTS_PER_MINUTE: z.coerce.number().min(0).default(0),
+    RATE_LIMIT_ORGANIZATION_BURST: z.coerce.number().int().min(1).optional(),
+    RATE_LIMIT_REDIS_URL: z.string().optional(),
   });
 
   const env = envVarSchema.parse(process.env);
@@ -47,22 +201,113 @@ export function getConfigFromEnv(): Config {
   const baseUrl = env.BASE_URL || `http://localhost:${env.PORT}`;
 
   const config: Config = {
+    accessTokenTtl: env.ACCESS_TOKEN_TTL,
+    adminToken: env.ADMIN_TOKEN,
+    adminOrganizationId: env.ADMIN_ORGANIZATION_ID,
+    adminRole: env.ADMIN_ROLE,
+    adminPort: env.ADMIN_PORT,
+    auditLog: env.AUDIT_LOG,
+    auditLogFile: env.AUDIT_LOG_FILE,
+    auditLogMaxSize: env.AUDIT_LOG_MAX_SIZE,
+    auditLogMaxFiles: env.AUDIT_LOG_MAX_FILES,
+    auditLogWebhookUrl: env.AUDIT_LOG_WEBHOOK_URL,
+    authorizationMode: env.AUTHORIZATION_MODE,
+    authorizationServer: env.AUTHORIZATION_SERVER,
+    authorizationServerMetadataTimeout: env.AUTHORIZATION_SERVER_METADATA_TIMEOUT,
+    authorizationServerMetadataCacheTtl: env.AUTHORIZATION_SERVER_METADATA_CACHE_TTL,
+    authorizationServerMetadataOverrides: env.AUTHORIZATION_SERVER_METADATA_OVERRIDES,
     baseUrl,
+    circuitBreakerThreshold: env.CIRCUIT_BREAKER_THRESHOLD,
+    circuitBreakerResetTimeout: env.CIRCUIT_BREAKER_RESET_TIMEOUT,
+    jwksCacheMaxAge: env.JWKS_CACHE_MAX_AGE,
+    jwksCooldown: env.JWKS_COOLDOWN,
+    jwksPrewarm: env.JWKS_PREWARM,
+    clientRegistration: env.CLIENT_REGISTRATION,
+    clientRegistrationRedirectUris: env.CLIENT_REGISTRATION_REDIRECT_URIS,
+    clientRegistrationUrl: env.CLIENT_REGISTRATION_URL ?? `${env.WORKOS_AUTHORIZATION_SERVER_URL}/oauth2/register`,
+    clientRegistrationClientId: env.CLIENT_REGISTRATION_CLIENT_ID ?? env.WORKOS_CLIENT_ID,
     port: env.PORT,
+    protectedResourceScopes: env.PROTECTED_RESOURCE_SCOPES,
     logLevel: env.LOG_LEVEL,
     logFormat: env.LOG_FORMAT,
+    masterKey: env.GATEWAY_MASTER_KEY,
+    mappingBackend: env.MAPPING_BACKEND,
     mappingFile: env.MAPPING_FILE,
+    mappingReloadInterval: env.MAPPING_RELOAD_INTERVAL,
+    mappingUrl: env.MAPPING_URL,
+    mappingUrlToken: env.MAPPING_URL_TOKEN,
+    mappingDatabaseUrl: env.MAPPING_DATABASE_URL,
+    mappingTable: env.MAPPING_TABLE,
+    mappingCacheTtl: env.MAPPING_CACHE_TTL,
+    metricsEnabled: env.METRICS_ENABLED,
+    metricsPort: env.METRICS_PORT,
+    metricsToken: env.METRICS_TOKEN,
+    membershipCacheTtl: env.MEMBERSHIP_CACHE_TTL,
+    membershipCacheNegativeTtl: env.MEMBERSHIP_CACHE_NEGATIVE_TTL,
+    membershipCacheMaxSize: env.MEMBERSHIP_CACHE_MAX_SIZE,
     ragieApiKey: env.RAGIE_API_KEY,
     ragieBaseUrl: env.RAGIE_BASE_URL,
+    refreshTokenTtl: env.REFRESH_TOKEN_TTL,
+    shutdownGracePeriod: env.SHUTDOWN_GRACE_PERIOD,
+    signingKey: env.GATEWAY_SIGNING_KEY,
+    tokenCacheMaxSize: env.TOKEN_CACHE_MAX_SIZE,
     strictApiKeys: env.STRICT_API_KEYS,
     strictMapping: env.STRICT_MAPPING,
+    tenantRouting: env.TENANT_ROUTING,
+    upstreamConnectTimeout: env.UPSTREAM_CONNECT_TIMEOUT,
+    upstreamResponseTimeout: env.UPSTREAM_RESPONSE_TIMEOUT,
+    upstreamRetries: env.UPSTREAM_RETRIES,
+    upstreamRetryDelay: env.UPSTREAM_RETRY_DELAY,
+    userRateLimit: {
+      requestsPerMinute: env.RATE_LIMIT_USER_REQUESTS_PER_MINUTE,
+      burst: env.RATE_LIMIT_USER_BURST,
+    },
+    organizationRateLimit: {
+      requestsPerMinute: env.RATE_LIMIT_ORGANIZATION_REQUESTS_PER_MINUTE,
+      burst: env.RATE_LIMIT_ORGANIZATION_BURST,
+    },
+    rateLimitRedisUrl: env.RATE_LIMIT_REDIS_URL,
     workosApiKey: env.WORKOS_API_KEY,
     workosAuthorizationServerUrl: env.WORKOS_AUTHORIZATION_SERVER_URL,
     workosClientId: env.WORKOS_CLIENT_ID,
+    workosCookiePassword: env.WORKOS_COOKIE_PASSWORD,
+    workosWebhookSecret: env.WORKOS_WEBHOOK_SECRET,
+    webhookPartitionTemplate: env.WEBHOOK_PARTITION_TEMPLATE,
   };
 
-  if (env.STRICT_MAPPING && !env.MAPPING_FILE) {
+  if (env.MAPPING_BACKEND === "http" && !env.MAPPING_URL) {
+    throw new Error("MAPPING_BACKEND=http requires MAPPING_URL to be specified");
+  }
+  if (env.MAPPING_BACKEND === "sql" && !env.MAPPING_DATABASE_URL) {
+    throw new Error("MAPPING_BACKEND=sql requires MAPPING_DATABASE_URL to be specified");
+  }
+  if (env.MAPPING_BACKEND === "file" && env.STRICT_MAPPING && !env.MAPPING_FILE) {
     throw new Error("STRICT_MAPPING=true requires MAPPING_FILE to be specified");
   }
+  if (env.ADMIN_PORT !== undefined && !env.ADMIN_TOKEN && !env.ADMIN_ORGANIZATION_ID) {
+    throw new Error("ADMIN_PORT requires ADMIN_TOKEN or ADMIN_ORGANIZATION_ID to be specified");
+  }
+  if (env.METRICS_ENABLED && env.METRICS_PORT === undefined && !env.METRICS_TOKEN) {
+    throw new Error("METRICS_ENABLED requires METRICS_PORT or METRICS_TOKEN to be specified");
+  }
+  if (env.CLIENT_REGISTRATION !== "off" && env.CLIENT_REGISTRATION_REDIRECT_URIS.length === 0) {
+    throw new Error("CLIENT_REGISTRATION requires CLIENT_REGISTRATION_REDIRECT_URIS to be specified");
+  }
+  if (env.AUTHORIZATION_SERVER === "gateway" && env.CLIENT_REGISTRATION_REDIRECT_URIS.length === 0) {
+    throw new Error("AUTHORIZATION_SERVER=gateway requires CLIENT_REGISTRATION_REDIRECT_URIS to be specified");
+  }
+  // Without a consent step, codes go to any registered client whose redirect URI is allowed, so hosts must be named
+  const looseRedirectUris = env.CLIENT_REGISTRATION_REDIRECT_URIS.filter(pattern => !hasFixedHost(pattern));
+  if (env.AUTHORIZATION_SERVER === "gateway" && looseRedirectUris.length > 0) {
+    throw new Error(
+      `AUTHORIZATION_SERVER=gateway requires CLIENT_REGISTRATION_REDIRECT_URIS to name their hosts: ${looseRedirectUris.join(", ")}`
+    );
+  }
+  if (env.AUTHORIZATION_SERVER === "gateway" && env.CLIENT_REGISTRATION === "forward") {
+    throw new Error("AUTHORIZATION_SERVER=gateway does not support CLIENT_REGISTRATION=forward");
+  }
+  if (env.AUDIT_LOG === "webhook" && !env.AUDIT_LOG_WEBHOOK_URL) {
+    throw new Error("AUDIT_LOG=webhook requires AUDIT_LOG_WEBHOOK_URL to be specified");
+  }
   return config;
 }
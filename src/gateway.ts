@@ -3,58 +3,187 @@ import express, { NextFunction, Request, Response } from "express";
 
 import { WorkOS } from "@workos-inc/node";
 import assert from "assert";
+import { createHash, timingSafeEqual } from "crypto";
 import expressWinston from "express-winston";
-import { readFileSync } from "fs";
-import { Server } from "http";
-import { createProxyMiddleware } from "http-proxy-middleware";
-import { createRemoteJWKSet, jwtVerify } from "jose";
-import { dirname, join } from "path";
-import { fileURLToPath } from "url";
+import { ClientRequest, IncomingMessage, Server } from "http";
+import { createProxyMiddleware, fixRequestBody } from "http-proxy-middleware";
+import { createRemoteJWKSet, customFetch, JWTPayload, jwtVerify } from "jose";
 import type winston from "winston";
+import { AdminApi } from "./admin.js";
+import { AuditEvent, createAuditLogger, fingerprintApiKey } from "./audit.js";
+import { AuthorizationServer } from "./authorization-server.js";
+import { LruCache } from "./cache.js";
+import { CircuitBreaker } from "./circuit-breaker.js";
 import { Config } from "./config.js";
+import { runReadinessChecks } from "./health.js";
 import { createLogger } from "./logger.js";
-import type { Mapper } from "./mapping.js";
+import { isMappingStore, type Mapper } from "./mapping.js";
+import {
+  filterToolsListResult,
+  getToolCallName,
+  isToolAllowed,
+  JsonRpcErrorCode,
+  jsonRpcError,
+  JsonRpcId,
+  JsonRpcMessage,
+  parseJsonRpcMessages,
+  SseMessageTransform,
+  ToolFilter,
+} from "./mcp.js";
+import { CachedMembership, InMemoryMembershipCache, MembershipCache } from "./membership.js";
+import { Metrics } from "./metrics.js";
+import { applyMetadataOverrides, AuthorizationServerMetadataCache, MetadataOverrides } from "./oauth-metadata.js";
+import { AccessPolicy, AccessSubject, evaluatePolicy } from "./policy.js";
+import { InMemoryRateLimitStore, RateLimit, RateLimitResult, RateLimitStore } from "./rate-limit.js";
+import { ClientRegistrationHandler } from "./registration.js";
+import { resolveSecret } from "./secrets.js";
+import { loadTemplate } from "./templates.js";
+import { WebhookHandler } from "./webhooks.js";
+import { WelcomePage } from "./welcome.js";
 
-const _filename = fileURLToPath(import.meta.url);
-const _dirname = dirname(_filename);
+const READINESS_CHECK_TIMEOUT_MS = 2000;
+const MCP_PATH_PATTERN = /^(?:\/[^/]+)?\/mcp\/?$/;
+const DEFAULT_UPSTREAM_PATH_TEMPLATE = "/mcp/{partition}/";
+const UPSTREAM_CONNECT_TIMEOUT = "UPSTREAM_CONNECT_TIMEOUT";
+const UPSTREAM_RESPONSE_TIMEOUT = "UPSTREAM_RESPONSE_TIMEOUT";
+// How long membership changes are remembered, which must outlast the tokens issued before them
+const MEMBERSHIP_CHANGE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Errors where the upstream most likely never processed the request
+const RETRYABLE_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "EPIPE",
+  UPSTREAM_CONNECT_TIMEOUT,
+]);
+
+// MCP methods without side effects, which can be sent to the upstream again
+const SAFE_MCP_METHODS = new Set([
+  "initialize",
+  "ping",
+  "tools/list",
+  "resources/list",
+  "resources/templates/list",
+  "resources/read",
+  "prompts/list",
+  "prompts/get",
+]);
+
+/**
+ * Compares a token with the configured one in constant time. Hashing first lets tokens of any length be compared.
+ */
+function tokenMatches(token: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
+
+/**
+ * The tenant that a request names in its URL: an organization ID or slug in the path, or a slug as the subdomain.
+ */
+interface Tenant {
+  key: string;
+  subdomain: boolean;
+}
+
+interface McpRewrite {
+  denied: JsonRpcMessage[];
+  toolFilter: ToolFilter;
+  toolsListIds: (JsonRpcId | undefined)[];
+}
+
+export interface GatewayOptions {
+  workos?: WorkOS;
+  membershipCache?: MembershipCache;
+  rateLimitStore?: RateLimitStore;
+  auditLogger?: winston.Logger;
+  metrics?: Metrics;
+}
 
 export class Gateway extends EventEmitter {
   private logger: winston.Logger;
+  private auditLogger: winston.Logger;
   private config: Config;
   private isRunning: boolean;
+  private isDraining: boolean;
+  private inFlight: Set<Response>;
+  private onIdle: (() => void) | null;
   private app: express.Application;
   private mapper: Mapper;
   private server: Server | null;
+  private metricsServer: Server | null;
+  private adminServer: Server | null;
   private workos: WorkOS;
-  private wwwAuthenticateHeader: string;
+  private membershipCache: MembershipCache;
+  private rolePermissionsCache: LruCache<string[]>;
+  private userEmailCache: LruCache<string>;
+  private organizationNameCache: LruCache<string>;
+  private membershipChanges: LruCache<number>;
+  private rateLimitStore: RateLimitStore;
+  private circuitBreakers: Map<string, CircuitBreaker>;
+  private metrics: Metrics;
   private workosJwks: ReturnType<typeof createRemoteJWKSet>;
+  private verifiedTokens: LruCache<JWTPayload>;
+  private authorizationServer: AuthorizationServer | null;
   private welcomeTemplate: string;
 
-  constructor(config: Config, mapper: Mapper, workos: WorkOS | null = null) {
+  constructor(config: Config, mapper: Mapper, options: GatewayOptions = {}) {
     super();
 
     this.config = config;
     this.mapper = mapper;
     this.logger = createLogger("Gateway", this.config.logLevel, this.config.logFormat);
     this.isRunning = false;
+    this.isDraining = false;
+    this.inFlight = new Set();
+    this.onIdle = null;
     this.server = null;
+    this.metricsServer = null;
+    this.adminServer = null;
 
     this.workos =
-      workos ??
+      options.workos ??
       new WorkOS(this.config.workosApiKey, {
         clientId: this.config.workosClientId,
       });
+    this.membershipCache = options.membershipCache ?? new InMemoryMembershipCache(this.config.membershipCacheMaxSize);
+    this.rolePermissionsCache = new LruCache(this.config.membershipCacheMaxSize);
+    this.userEmailCache = new LruCache(this.config.membershipCacheMaxSize);
+    this.organizationNameCache = new LruCache(this.config.membershipCacheMaxSize);
+    this.membershipChanges = new LruCache(this.config.membershipCacheMaxSize);
+    this.rateLimitStore = options.rateLimitStore ?? new InMemoryRateLimitStore();
+    this.circuitBreakers = new Map();
+    this.auditLogger = options.auditLogger ?? createAuditLogger(this.config);
+    this.metrics = options.metrics ?? new Metrics();
+    // Audit transports report failed deliveries as warnings, which would otherwise be dropped
+    this.auditLogger.on("warn", (error: unknown) => {
+      this.logger.warn(`Could not deliver an audit event: ${String(error)}`);
+      this.metrics.auditDeliveryFailure();
+    });
 
-    this.wwwAuthenticateHeader = [
-      'Bearer error="unauthorized"',
-      'error_description="Authorization needed"',
-      `resource_metadata="${this.config.baseUrl}/.well-known/oauth-protected-resource"`,
-    ].join(", ");
+    this.workosJwks = createRemoteJWKSet(new URL(this.config.workosAuthorizationServerUrl + "/oauth2/jwks"), {
+      cooldownDuration: this.config.jwksCooldown * 1000,
+      cacheMaxAge: this.config.jwksCacheMaxAge * 1000,
+      [customFetch]: async (...args) => {
+        try {
+          const response = await fetch(...args);
+          this.metrics.jwksFetch(response.ok);
+          return response;
+        } catch (error) {
+          this.metrics.jwksFetch(false);
+          throw error;
+        }
+      },
+    });
+
+    this.verifiedTokens = new LruCache(this.config.tokenCacheMaxSize);
 
-    this.workosJwks = createRemoteJWKSet(new URL(this.config.workosAuthorizationServerUrl + "/oauth2/jwks"));
+    this.authorizationServer = this.config.authorizationServer === "gateway" ? this.createAuthorizationServer() : null;
 
-    const templatePath = join(_dirname, "templates", "welcome.html");
-    this.welcomeTemplate = readFileSync(templatePath, "utf-8");
+    this.welcomeTemplate = loadTemplate("welcome.html");
 
     this.app = express();
     this.initializeApp();
@@ -80,99 +209,1242 @@ export class Gateway extends EventEmitter {
         responseWhitelist: ["statusCode", "responseTime"],
       })
     );
+    this.app.use(this.metricsMiddleware.bind(this));
+    this.app.use(this.drainMiddleware.bind(this));
 
-    this.app.get("/welcome", (req: Request, res: Response) => {
-      res.status(200).send(this.welcomeTemplate);
+    // Metrics are only served on the public port with a token, since they reveal organization IDs and traffic
+    if (this.config.metricsEnabled && this.config.metricsPort === undefined && this.config.metricsToken !== undefined) {
+      this.app.get("/metrics", this.metricsAuthMiddleware.bind(this), this.metricsHandler.bind(this));
+    }
+
+    this.app.get("/healthz", (_req: Request, res: Response) => {
+      res.json({ status: "ok" });
     });
+    this.app.get("/readyz", this.readinessHandler.bind(this));
+
+    if (this.isAdminApiEnabled() && this.config.adminPort === undefined) {
+      this.app.use("/admin", this.createAdminApi().router);
+    }
 
-    this.app.post(
-      "/:organizationId/mcp",
+    if (this.config.workosWebhookSecret !== undefined) {
+      const webhooks = new WebhookHandler({
+        workos: this.workos,
+        secret: this.config.workosWebhookSecret,
+        partitionTemplate: this.config.webhookPartitionTemplate,
+        mapperConfig: this.config,
+        store: isMappingStore(this.mapper) ? this.mapper : undefined,
+        invalidateMembership: this.invalidateMembership.bind(this),
+        logger: this.logger,
+        auditLogger: this.auditLogger,
+      });
+      this.app.use("/webhooks/workos", webhooks.router);
+    }
+
+    if (this.config.clientRegistration !== "off") {
+      const registration = new ClientRegistrationHandler({
+        mode: this.config.clientRegistration,
+        upstreamUrl: this.config.clientRegistrationUrl,
+        clientId: this.config.clientRegistrationClientId,
+        issueClientId: this.authorizationServer?.registerClient.bind(this.authorizationServer),
+        redirectUriPatterns: this.config.clientRegistrationRedirectUris,
+        logger: this.logger,
+        auditLogger: this.auditLogger,
+      });
+      this.app.use("/oauth/register", registration.router);
+    }
+
+    if (this.authorizationServer) {
+      this.app.use(this.authorizationServer.router);
+    }
+
+    const cookiePassword = this.config.workosCookiePassword;
+    if (cookiePassword !== undefined) {
+      const welcome = new WelcomePage({
+        workos: this.workos,
+        clientId: this.config.workosClientId,
+        baseUrl: this.config.baseUrl,
+        cookiePassword: resolveSecret(cookiePassword, this.config.masterKey),
+        mcpUrl: this.mcpUrl.bind(this),
+        hasMapping: organizationId => this.mapper.hasMapping(organizationId),
+        logger: this.logger,
+      });
+      this.app.use("/welcome", welcome.router);
+    } else {
+      this.app.get("/welcome", (req: Request, res: Response) => {
+        res.status(200).send(this.welcomeTemplate);
+      });
+    }
+
+    const mcpProxy = this.createMcpProxy(false);
+    const rewritingMcpProxy = this.createMcpProxy(true);
+    const mcpHandlers = [
+      this.auditMiddleware.bind(this),
+      this.tenantMiddleware.bind(this),
       this.ensureMappingMiddleware.bind(this),
       this.bearerTokenMiddleware.bind(this),
-      createProxyMiddleware<Request<{ organizationId: string }>>({
-        target: this.config.ragieBaseUrl,
-        logger: this.logger,
-        changeOrigin: true,
-        pathRewrite: (_path, req) => {
-          const partition = this.mapper.getPartition(req.params.organizationId);
-          return `/mcp/${partition}/`;
-        },
-        on: {
-          proxyReq: (proxyReq, req) => {
-            const apiKey = this.mapper.getApiKey(req.params.organizationId);
-            proxyReq.setHeader("Authorization", `Bearer ${apiKey}`);
-          },
-        },
-      })
-    );
+      // Parsed only once the token is verified, so unauthenticated clients cannot make the gateway parse large bodies.
+      // Errors for requests rejected before this point carry a null ID; later ones carry the IDs of the requests.
+      express.json({ limit: "4mb" }),
+      this.mcpMessageMiddleware.bind(this),
+      this.policyMiddleware.bind(this),
+      this.rateLimitMiddleware.bind(this),
+      this.toolFilterMiddleware.bind(this),
+      this.upstreamMiddleware.bind(this),
+      this.circuitBreakerMiddleware.bind(this),
+      (req: Request<{ organizationId: string }>, res: Response, next: NextFunction) =>
+        res.locals["mcpRewrite"] ? rewritingMcpProxy(req, res, next) : mcpProxy(req, res, next),
+    ];
+
+    // Streamable HTTP transport: POST sends messages, GET opens an SSE stream and DELETE ends the session
+    this.app
+      .route("/:organizationId/mcp")
+      .post(...mcpHandlers)
+      .get(...mcpHandlers)
+      .delete(...mcpHandlers);
+    this.app.use("/:organizationId/mcp", this.mcpErrorHandler.bind(this));
+    if (this.config.tenantRouting === "subdomain") {
+      this.app
+        .route("/mcp")
+        .post(...mcpHandlers)
+        .get(...mcpHandlers)
+        .delete(...mcpHandlers);
+      this.app.use("/mcp", this.mcpErrorHandler.bind(this));
+    }
 
     this.app.get("/.well-known/oauth-protected-resource", (req, res) =>
       res.json({
         resource: `${this.config.baseUrl}/`,
-        authorization_servers: [this.config.workosAuthorizationServerUrl],
+        authorization_servers: [this.authorizationServerUrl()],
         bearer_methods_supported: ["header"],
       })
     );
+    this.app.get(
+      "/.well-known/oauth-protected-resource/:organizationId/mcp",
+      this.protectedResourceMetadataHandler.bind(this)
+    );
+    if (this.config.tenantRouting === "subdomain") {
+      this.app.get("/.well-known/oauth-protected-resource/mcp", this.protectedResourceMetadataHandler.bind(this));
+    }
+
+    if (this.authorizationServer) {
+      // The gateway does not issue ID tokens, so it only serves OAuth metadata
+      const metadata = applyMetadataOverrides(this.authorizationServer.metadata(), this.metadataOverrides());
+      this.app.get("/.well-known/oauth-authorization-server", (_req, res) => {
+        res.set("Cache-Control", `public, max-age=${this.config.authorizationServerMetadataCacheTtl}`).json(metadata);
+      });
+      return;
+    }
+    for (const document of ["oauth-authorization-server", "openid-configuration"]) {
+      const cache = this.createMetadataCache(document);
+      this.app.get(`/.well-known/${document}`, async (_req, res) => {
+        try {
+          const { metadata, maxAge } = await cache.get();
+          res.set("Cache-Control", `public, max-age=${maxAge}`).json(metadata);
+        } catch {
+          res.status(502).json({ error: "Authorization server metadata is unavailable." });
+        }
+      });
+    }
+  }
+
+  /**
+   * Serves the RFC 9728 protected resource metadata of an organization's MCP endpoint, so that clients can match
+   * the resource to the URL they connect to.
+   */
+  async protectedResourceMetadataHandler(req: Request<{ organizationId?: string }>, res: Response) {
+    const tenant = this.tenantForRequest(req);
+    let organizationId: string | undefined;
+    let hasMapping = false;
+    let hasEntry = false;
+    try {
+      organizationId = tenant && (await this.organizationForTenant(tenant));
+      hasMapping = organizationId !== undefined && (await this.mapper.hasMapping(organizationId));
+      hasEntry = organizationId !== undefined && hasMapping && (await this.mapper.hasEntry(organizationId));
+    } catch (error) {
+      this.logger.error(`Mapping lookup failed for tenant ${tenant?.key}: ${String(error)}`);
+      res.status(503).json({ error: "Organization mapping is unavailable." });
+      return;
+    }
+    if (!tenant || organizationId === undefined || !hasMapping) {
+      res.status(404).json({ error: "Organization not found." });
+      return;
+    }
+
+    // The endpoint is public, so WorkOS is only asked for the names of organizations that are in the mapping
+    const name = hasEntry ? await this.getOrganizationName(organizationId) : organizationId;
+    res.json({
+      resource: this.tenantUrl(tenant),
+      authorization_servers: [this.authorizationServerUrl()],
+      bearer_methods_supported: ["header"],
+      scopes_supported: this.config.protectedResourceScopes,
+      resource_name: `Ragie MCP (${name})`,
+    });
+  }
+
+  private resourceUrl(organizationId: string): string {
+    return this.tenantUrl({ key: organizationId, subdomain: false });
+  }
+
+  /**
+   * Returns the URL of a tenant's MCP endpoint, or of another document when a prefix such as the protected
+   * resource metadata path is given.
+   */
+  private tenantUrl(tenant: Tenant, prefix: string = ""): string {
+    if (!tenant.subdomain) {
+      return `${this.config.baseUrl}${prefix}/${encodeURIComponent(tenant.key)}/mcp`;
+    }
+    const url = new URL(this.config.baseUrl);
+    url.hostname = `${tenant.key}.${url.hostname}`;
+    return `${url.href.replace(/\/+$/, "")}${prefix}/mcp`;
+  }
+
+  /**
+   * Returns the URL that clients should use for an organization's MCP endpoint, which is based on its slug when
+   * TENANT_ROUTING allows and the organization has one.
+   */
+  private async mcpUrl(organizationId: string): Promise<string> {
+    const slug = this.config.tenantRouting === "path" ? undefined : await this.mapper.getSlug(organizationId);
+    return slug === undefined
+      ? this.resourceUrl(organizationId)
+      : this.tenantUrl({ key: slug, subdomain: this.config.tenantRouting === "subdomain" });
+  }
+
+  /**
+   * Returns the slug in a host name that is a subdomain of the base URL's host, such as acme in
+   * acme.gateway.example.com.
+   */
+  private subdomainSlug(hostname: string | undefined): string | undefined {
+    const suffix = `.${new URL(this.config.baseUrl).hostname}`;
+    const host = hostname?.toLowerCase() ?? "";
+    const slug = host.endsWith(suffix) ? host.slice(0, -suffix.length) : "";
+    return slug === "" || slug.includes(".") ? undefined : slug;
+  }
+
+  private tenantForRequest(req: Request<{ organizationId?: string }>): Tenant | undefined {
+    if (req.params.organizationId !== undefined) {
+      return { key: req.params.organizationId, subdomain: false };
+    }
+    const slug = this.subdomainSlug(req.hostname);
+    return slug === undefined ? undefined : { key: slug, subdomain: true };
+  }
+
+  /**
+   * Returns the tenant whose MCP endpoint a resource URL identifies, the inverse of tenantUrl.
+   */
+  private tenantForResource(resource: string): Tenant | undefined {
+    const prefix = `${this.config.baseUrl}/`;
+    const encoded = resource.startsWith(prefix)
+      ? resource.slice(prefix.length).match(/^([^/?#]+)\/mcp\/?$/)?.[1]
+      : undefined;
+    if (encoded !== undefined) {
+      try {
+        return { key: decodeURIComponent(encoded), subdomain: false };
+      } catch {
+        return undefined;
+      }
+    }
+    if (this.config.tenantRouting !== "subdomain" || !URL.canParse(resource)) {
+      return undefined;
+    }
+    const slug = this.subdomainSlug(new URL(resource).hostname);
+    const tenant = slug === undefined ? undefined : { key: slug, subdomain: true };
+    return tenant && this.tenantUrl(tenant) === resource.replace(/\/$/, "") ? tenant : undefined;
+  }
+
+  /**
+   * Resolves a tenant to its organization ID. Path segments are organization IDs, or with TENANT_ROUTING=slug
+   * also slugs; subdomains are always slugs.
+   */
+  private async organizationForTenant(tenant: Tenant): Promise<string | undefined> {
+    if (tenant.subdomain) {
+      return this.mapper.resolveSlug(tenant.key);
+    }
+    if (this.config.tenantRouting === "slug") {
+      return (await this.mapper.resolveSlug(tenant.key)) ?? tenant.key;
+    }
+    return tenant.key;
+  }
+
+  private async organizationForResource(resource: string): Promise<string | undefined> {
+    const tenant = this.tenantForResource(resource);
+    return tenant && this.organizationForTenant(tenant);
+  }
+
+  private authorizationServerUrl(): string {
+    return this.authorizationServer ? this.config.baseUrl : this.config.workosAuthorizationServerUrl;
+  }
+
+  /**
+   * Builds the WWW-Authenticate challenge for a tenant's MCP endpoint, pointing clients at its protected
+   * resource metadata.
+   */
+  private wwwAuthenticateHeader(tenant: Tenant): string {
+    const metadataUrl = this.tenantUrl(tenant, "/.well-known/oauth-protected-resource");
+    return [
+      'Bearer error="unauthorized"',
+      'error_description="Authorization needed"',
+      `resource_metadata="${metadataUrl}"`,
+    ].join(", ");
+  }
+
+  /**
+   * Returns the name of an organization in WorkOS, or its ID when the name cannot be looked up.
+   */
+  private async getOrganizationName(organizationId: string): Promise<string> {
+    let name = this.organizationNameCache.get(organizationId);
+    if (name === undefined) {
+      try {
+        name = (
+          await this.callWorkOS("getOrganization", () => this.workos.organizations.getOrganization(organizationId))
+        ).name;
+        this.organizationNameCache.set(organizationId, name, this.config.membershipCacheTtl * 1000);
+      } catch (error) {
+        this.logger.warn(`Could not look up the name of organization ${organizationId}: ${String(error)}`);
+        name = organizationId;
+        this.organizationNameCache.set(organizationId, name, this.config.membershipCacheNegativeTtl * 1000);
+      }
+    }
+    return name;
+  }
+
+  private createMetadataCache(document: string): AuthorizationServerMetadataCache {
+    return new AuthorizationServerMetadataCache({
+      url: `${this.config.workosAuthorizationServerUrl}/.well-known/${document}`,
+      issuer: this.config.workosAuthorizationServerUrl,
+      timeoutMs: this.config.authorizationServerMetadataTimeout * 1000,
+      defaultTtlMs: this.config.authorizationServerMetadataCacheTtl * 1000,
+      overrides: this.metadataOverrides(),
+      logger: this.logger,
+    });
+  }
 
-    this.app.get("/.well-known/oauth-authorization-server", async (_req, res) => {
-      const response = await fetch(
-        `${this.config.workosAuthorizationServerUrl}/.well-known/oauth-authorization-server`
+  private metadataOverrides(): MetadataOverrides {
+    // Explicit overrides take precedence over the gateway's own registration endpoint
+    return {
+      ...(this.config.clientRegistration !== "off" && {
+        registration_endpoint: `${this.config.baseUrl}/oauth/register`,
+      }),
+      ...this.config.authorizationServerMetadataOverrides,
+    };
+  }
+
+  private createAuthorizationServer(): AuthorizationServer {
+    const signingKey = this.config.signingKey;
+    return new AuthorizationServer({
+      workos: this.workos,
+      clientId: this.config.workosClientId,
+      issuer: this.config.baseUrl,
+      signingKey: signingKey === undefined ? undefined : resolveSecret(signingKey, this.config.masterKey),
+      accessTokenTtlMs: this.config.accessTokenTtl * 1000,
+      refreshTokenTtlMs: this.config.refreshTokenTtl * 1000,
+      redirectUriPatterns: this.config.clientRegistrationRedirectUris,
+      staticClientId: this.config.clientRegistrationClientId,
+      scopes: this.config.protectedResourceScopes,
+      resolveResource: this.organizationForResource.bind(this),
+      resourceUrl: this.resourceUrl.bind(this),
+      getMembership: (userId, organizationId) => this.getMembership(userId, organizationId, undefined),
+      logger: this.logger,
+      auditLogger: this.auditLogger,
+    });
+  }
+
+  /**
+   * Creates the proxy to the Ragie MCP server. The rewriting variant takes over the response so that
+   * JSON-RPC results can be filtered; the plain variant streams responses through untouched.
+   * Safe requests that fail to reach the upstream are retried, other failures are answered with a JSON-RPC error.
+   */
+  private createMcpProxy(rewriteResponses: boolean) {
+    const proxy = createProxyMiddleware<Request<{ organizationId: string }>, Response>({
+      target: this.config.ragieBaseUrl,
+      router: req => req.res?.locals["upstreamUrl"],
+      logger: this.logger,
+      changeOrigin: true,
+      selfHandleResponse: rewriteResponses,
+      pathRewrite: (_path, req) => req.res?.locals["upstreamPath"],
+      on: {
+        proxyReq: (proxyReq, req, res) => {
+          proxyReq.setHeader("Authorization", `Bearer ${res.locals["apiKey"]}`);
+          res.locals["upstreamStartedAt"] = performance.now();
+          this.setUpstreamTimeouts(proxyReq);
+          if (rewriteResponses) {
+            proxyReq.removeHeader("accept-encoding");
+          }
+          // Stop the upstream request when the client goes away mid-response, e.g. an SSE stream closed on shutdown
+          res.once("close", () => {
+            if (!res.writableFinished) {
+              proxyReq.destroy();
+            }
+          });
+          // The body has already been parsed to inspect the JSON-RPC messages, so it has to be written again
+          fixRequestBody(proxyReq, req);
+        },
+        proxyRes: (proxyRes, req, res) => {
+          res.locals["upstreamStatus"] = proxyRes.statusCode;
+          const breaker = this.getCircuitBreaker(res.locals["upstreamUrl"]);
+          if ((proxyRes.statusCode ?? 0) >= 500) {
+            breaker.recordFailure();
+          } else {
+            breaker.recordSuccess();
+          }
+          this.metrics.observeUpstream(
+            req.params.organizationId,
+            proxyRes.statusCode ?? 0,
+            (performance.now() - res.locals["upstreamStartedAt"]) / 1000
+          );
+          // Keep reverse proxies in front of the gateway from buffering server-sent event streams
+          if (proxyRes.headers["content-type"]?.startsWith("text/event-stream")) {
+            proxyRes.headers["x-accel-buffering"] = "no";
+          }
+          if (rewriteResponses) {
+            this.rewriteMcpResponse(proxyRes, res);
+          }
+        },
+        error: (error: NodeJS.ErrnoException, req, res) => {
+          const organizationId = req.params.organizationId;
+          const code = error.code ?? "unknown";
+          this.metrics.upstreamError(organizationId, code);
+          // The client went away, which is not the upstream's fault
+          if (!("locals" in res) || res.writableEnded || res.destroyed) {
+            return;
+          }
+          if (res.headersSent) {
+            this.logger.warn(`Upstream response for organization ${organizationId} failed: ${error.message}`);
+            res.destroy();
+            return;
+          }
+
+          const breaker = this.getCircuitBreaker(res.locals["upstreamUrl"]);
+          breaker.recordFailure();
+          const attempt: number = res.locals["upstreamAttempt"] ?? 0;
+          if (
+            attempt < this.config.upstreamRetries &&
+            RETRYABLE_ERROR_CODES.has(code) &&
+            this.isSafeMcpRequest(req) &&
+            breaker.allowRequest()
+          ) {
+            // Exponential backoff with jitter, so that clients retrying together do not hit the upstream at once
+            const delay = this.config.upstreamRetryDelay * 1000 * 2 ** attempt * (0.5 + Math.random() / 2);
+            res.locals["upstreamAttempt"] = attempt + 1;
+            this.metrics.upstreamRetry(organizationId);
+            this.logger.warn(
+              `Retrying upstream request for organization ${organizationId} in ${Math.round(delay)}ms after ${code} ` +
+                `(retry ${attempt + 1} of ${this.config.upstreamRetries})`
+            );
+            setTimeout(() => {
+              if (!res.destroyed) {
+                void proxy(req, res);
+              }
+            }, delay);
+            return;
+          }
+
+          this.logger.error(`Upstream request for organization ${organizationId} failed: ${error.message}`);
+          if (code === UPSTREAM_CONNECT_TIMEOUT || code === UPSTREAM_RESPONSE_TIMEOUT) {
+            this.sendMcpError(req, res, 504, JsonRpcErrorCode.UpstreamTimeout, "Upstream timed out.");
+          } else {
+            this.sendMcpError(req, res, 502, JsonRpcErrorCode.UpstreamUnavailable, "Upstream is unavailable.");
+          }
+        },
+      },
+    });
+    return proxy;
+  }
+
+  /**
+   * Aborts an upstream request that takes longer than the connect timeout to connect, or longer than the response
+   * timeout to send response headers. Streamed response bodies are not limited once they have started.
+   */
+  private setUpstreamTimeouts(proxyReq: ClientRequest): void {
+    const timers: NodeJS.Timeout[] = [];
+    const abort = (code: string, message: string) => proxyReq.destroy(Object.assign(new Error(message), { code }));
+    const clear = () => timers.forEach(timer => clearTimeout(timer));
+
+    if (this.config.upstreamResponseTimeout > 0) {
+      timers.push(
+        setTimeout(
+          () => abort(UPSTREAM_RESPONSE_TIMEOUT, "Upstream did not respond in time"),
+          this.config.upstreamResponseTimeout * 1000
+        )
       );
-      const metadata = await response.json();
+    }
+    proxyReq.once("socket", socket => {
+      if (this.config.upstreamConnectTimeout > 0 && socket.connecting) {
+        const timer = setTimeout(
+          () => abort(UPSTREAM_CONNECT_TIMEOUT, "Connecting to the upstream timed out"),
+          this.config.upstreamConnectTimeout * 1000
+        );
+        timers.push(timer);
+        socket.once("connect", () => clearTimeout(timer));
+      }
+    });
+    proxyReq.once("response", clear);
+    proxyReq.once("close", clear);
+  }
+
+  /**
+   * Returns whether every message in the request is safe to send to the upstream twice.
+   */
+  private isSafeMcpRequest(req: Request): boolean {
+    if (req.method === "GET") {
+      return true;
+    }
+    const messages = req.method === "POST" ? parseJsonRpcMessages(req.body) : undefined;
+    return (
+      !!messages && messages.every(message => message.method !== undefined && SAFE_MCP_METHODS.has(message.method))
+    );
+  }
+
+  /**
+   * Answers an MCP request that the gateway rejected or could not proxy with a JSON-RPC error for each of its
+   * requests, along with the errors for tool calls that were denied by the gateway. Requests without a parsable
+   * body get a single error with a null ID.
+   */
+  private sendMcpError(req: Request, res: Response, status: number, code: number, message: string): void {
+    const rewrite: McpRewrite | undefined = res.locals["mcpRewrite"];
+    const errors = [
+      ...(parseJsonRpcMessages(req.body) ?? [])
+        .filter(request => request.method !== undefined && request.id !== undefined)
+        .map(request => jsonRpcError(request.id, code, message)),
+      ...(rewrite?.denied ?? []),
+    ];
+    res
+      .status(status)
+      .json(Array.isArray(req.body) && errors.length > 0 ? errors : (errors[0] ?? jsonRpcError(null, code, message)));
+  }
 
-      res.json(metadata);
+  /**
+   * Returns the circuit breaker of an upstream server, which is shared by all organizations routed to it.
+   */
+  private getCircuitBreaker(upstreamUrl: string): CircuitBreaker {
+    const { origin, host } = new URL(upstreamUrl);
+    let breaker = this.circuitBreakers.get(origin);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        failureThreshold: this.config.circuitBreakerThreshold,
+        resetTimeoutMs: this.config.circuitBreakerResetTimeout * 1000,
+        onStateChange: (state, previous) => {
+          const message = `Circuit breaker for upstream ${host} changed from ${previous} to ${state}`;
+          if (state === "open") {
+            this.logger.error(message);
+          } else {
+            this.logger.info(message);
+          }
+          this.metrics.circuitBreakerStateChange(host, state);
+        },
+      });
+      this.circuitBreakers.set(origin, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Writes an audit event for every request to the MCP route once its response has finished or been aborted.
+   */
+  auditMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+    const startedAt = Date.now();
+    res.once("close", () => {
+      const messages: JsonRpcMessage[] = res.locals["mcpMessages"] ?? [];
+      const event: AuditEvent = {
+        userId: res.locals["userId"],
+        organizationId: req.params.organizationId,
+        partition: res.locals["partition"],
+        apiKeyFingerprint: res.locals["apiKeyFingerprint"],
+        httpMethod: req.method,
+        mcpMethods: messages.flatMap(message => (message.method ? [message.method] : [])),
+        toolNames: messages.flatMap(message => getToolCallName(message) ?? []),
+        status: res.statusCode,
+        upstreamStatus: res.locals["upstreamStatus"],
+        durationMs: Date.now() - startedAt,
+        completed: res.writableFinished,
+      };
+      this.auditLogger.info("MCP request", event);
     });
+    next();
+  }
+
+  /**
+   * Resolves the tenant in the request's URL to its organization, replacing the organizationId parameter so that
+   * the middleware after it, starting with the mapping and membership checks, sees the real organization ID.
+   */
+  async tenantMiddleware(req: Request<{ organizationId?: string }>, res: Response, next: NextFunction) {
+    const tenant = this.tenantForRequest(req);
+    let organizationId: string | undefined;
+    try {
+      organizationId = tenant && (await this.organizationForTenant(tenant));
+    } catch (error) {
+      this.logger.error(`Slug lookup failed for tenant ${tenant?.key}: ${String(error)}`);
+      this.sendMcpError(req, res, 503, JsonRpcErrorCode.MappingUnavailable, "Organization mapping is unavailable.");
+      return;
+    }
+    if (!tenant || organizationId === undefined) {
+      this.logger.warn(`No organization found for tenant ${tenant?.key ?? req.hostname}`);
+      this.metrics.authFailure("unmapped_organization");
+      this.sendMcpError(req, res, 404, JsonRpcErrorCode.OrganizationNotFound, "Organization not found.");
+      return;
+    }
+    req.params.organizationId = organizationId;
+    res.locals["tenant"] = tenant;
+    next();
   }
 
-  ensureMappingMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
-    if (!this.mapper.hasMapping(req.params.organizationId)) {
+  async ensureMappingMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+    let hasMapping: boolean;
+    try {
+      hasMapping = await this.mapper.hasMapping(req.params.organizationId);
+    } catch (error) {
+      this.logger.error(`Mapping lookup failed for organization ${req.params.organizationId}: ${String(error)}`);
+      this.sendMcpError(req, res, 503, JsonRpcErrorCode.MappingUnavailable, "Organization mapping is unavailable.");
+      return;
+    }
+    if (!hasMapping) {
       this.logger.warn(`No mapping found for organization ${req.params.organizationId}`);
-      res.status(404).json({ error: "Organization not found" });
+      this.metrics.authFailure("unmapped_organization");
+      this.sendMcpError(req, res, 404, JsonRpcErrorCode.OrganizationNotFound, "Organization not found.");
+      return;
+    }
+    next();
+  }
+
+  /**
+   * Resolves where the request is proxied to: the organization's own upstream from the mapping, or else the
+   * Ragie MCP server at RAGIE_BASE_URL, along with the API key to send to it.
+   */
+  async upstreamMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+    const organizationId = req.params.organizationId;
+    const apiKey = await this.mapper.getApiKey(organizationId);
+    const partition = await this.mapper.getPartition(organizationId);
+    const upstream = await this.mapper.getUpstream(organizationId);
+    res.locals["partition"] = partition;
+    res.locals["upstreamUrl"] = upstream?.url ?? this.config.ragieBaseUrl;
+    res.locals["upstreamPath"] = (upstream?.pathTemplate ?? DEFAULT_UPSTREAM_PATH_TEMPLATE).replace(
+      /\{partition\}/g,
+      () => partition
+    );
+    res.locals["apiKey"] = apiKey;
+    res.locals["apiKeyFingerprint"] = fingerprintApiKey(apiKey);
+    next();
+  }
+
+  /**
+   * Fails fast with a JSON-RPC error while the circuit breaker of the request's upstream is open.
+   */
+  circuitBreakerMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+    const breaker = this.getCircuitBreaker(res.locals["upstreamUrl"]);
+    if (!breaker.allowRequest()) {
+      this.metrics.upstreamError(req.params.organizationId, "circuit_open");
+      res.set("Retry-After", String(Math.max(1, Math.ceil(breaker.retryAfterMs() / 1000))));
+      this.sendMcpError(req, res, 503, JsonRpcErrorCode.UpstreamUnavailable, "Upstream is temporarily unavailable.");
+      return;
+    }
+    next();
+  }
+
+  /**
+   * Answers errors thrown on the MCP route, such as failed mapping lookups or malformed request bodies, with a
+   * JSON-RPC error instead of Express' HTML error page.
+   */
+  mcpErrorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+    if (res.headersSent) {
+      next(error);
       return;
     }
+
+    // Errors from the body parser carry the HTTP status and a type describing what was wrong with the body
+    const { status, type } = error as { status?: number; type?: string };
+    if (type === "entity.parse.failed") {
+      this.sendMcpError(req, res, 400, JsonRpcErrorCode.ParseError, "Parse error.");
+    } else if (status !== undefined && status >= 400 && status < 500) {
+      this.sendMcpError(req, res, status, JsonRpcErrorCode.InvalidRequest, "Invalid request.");
+    } else {
+      this.logger.error(`Request for organization ${req.params["organizationId"]} failed: ${String(error)}`);
+      this.sendMcpError(req, res, 500, JsonRpcErrorCode.InternalError, "Internal error.");
+    }
+  }
+
+  /**
+   * Records the JSON-RPC messages in the request body for the middleware that inspects them.
+   */
+  mcpMessageMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+    res.locals["mcpMessages"] = parseJsonRpcMessages(req.body);
     next();
   }
 
+  /**
+   * Enforces the organization's tool allow and deny lists on tools/call requests, answering denied calls
+   * with JSON-RPC errors, and marks the response for rewriting when tools/list results need filtering.
+   */
+  async toolFilterMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+    const organizationId = req.params.organizationId;
+    const toolFilter = await this.mapper.getToolFilter(organizationId);
+    const messages: JsonRpcMessage[] | undefined = res.locals["mcpMessages"];
+    if (!toolFilter || (!messages && req.method !== "POST")) {
+      next();
+      return;
+    }
+    // Bodies that cannot be inspected are rejected rather than forwarded, since they could carry denied tool calls
+    if (!messages) {
+      if (req.is("application/json")) {
+        this.sendMcpError(req, res, 400, JsonRpcErrorCode.InvalidRequest, "Invalid request.");
+      } else {
+        this.sendMcpError(req, res, 415, JsonRpcErrorCode.InvalidRequest, "Content type must be application/json.");
+      }
+      return;
+    }
+
+    const denied: JsonRpcMessage[] = [];
+    const forwarded = messages.filter(message => {
+      const toolName = getToolCallName(message);
+      if (toolName === undefined || isToolAllowed(toolFilter, toolName)) {
+        return true;
+      }
+      this.logger.warn(`Tool ${toolName} is not allowed for organization ${organizationId}`);
+      denied.push(jsonRpcError(message.id, JsonRpcErrorCode.ToolNotAllowed, `Tool ${toolName} is not allowed.`));
+      return false;
+    });
+
+    if (forwarded.length === 0) {
+      res.status(200).json(Array.isArray(req.body) ? denied : denied[0]);
+      return;
+    }
+
+    const toolsListIds = forwarded.filter(message => message.method === "tools/list").map(message => message.id);
+    if (denied.length > 0 || toolsListIds.length > 0) {
+      req.body = Array.isArray(req.body) ? forwarded : forwarded[0];
+      const rewrite: McpRewrite = { denied, toolFilter, toolsListIds };
+      res.locals["mcpRewrite"] = rewrite;
+    }
+    next();
+  }
+
+  /**
+   * Writes a proxied MCP response to the client, filtering tools/list results and appending the errors
+   * for tool calls that were denied by the gateway. Server-sent event streams are rewritten as they arrive.
+   */
+  private rewriteMcpResponse(proxyRes: IncomingMessage, res: Response): void {
+    const { denied, toolFilter, toolsListIds } = res.locals["mcpRewrite"] as McpRewrite;
+    const rewrite = (message: unknown) => {
+      const [response] = parseJsonRpcMessages(message) ?? [];
+      return response && toolsListIds.includes(response.id) ? filterToolsListResult(response, toolFilter) : message;
+    };
+
+    const statusCode = proxyRes.statusCode ?? 200;
+    const headers = { ...proxyRes.headers };
+    delete headers["content-length"];
+    delete headers["transfer-encoding"];
+    delete headers["connection"];
+    const contentType = proxyRes.headers["content-type"] ?? "";
+
+    if (contentType.startsWith("text/event-stream")) {
+      res.writeHead(statusCode, headers);
+      for (const error of denied) {
+        res.write(`data: ${JSON.stringify(error)}\n\n`);
+      }
+      proxyRes.pipe(new SseMessageTransform(rewrite)).pipe(res);
+    } else if (contentType.startsWith("application/json")) {
+      const chunks: Buffer[] = [];
+      proxyRes.on("data", (chunk: Buffer) => chunks.push(chunk));
+      proxyRes.on("end", () => {
+        const raw = Buffer.concat(chunks).toString("utf-8");
+        let body: unknown;
+        try {
+          body = JSON.parse(raw);
+        } catch {
+          res.writeHead(statusCode, headers).end(raw);
+          return;
+        }
+        const rewritten = Array.isArray(body) ? body.map(rewrite) : rewrite(body);
+        const responseBody = denied.length > 0 ? [rewritten, ...denied].flat() : rewritten;
+        res.writeHead(statusCode, headers).end(JSON.stringify(responseBody));
+      });
+    } else if (statusCode === 202 && denied.length > 0) {
+      // Only notifications were forwarded, so the denied calls are the only responses
+      proxyRes.resume();
+      res.writeHead(200, { ...headers, "content-type": "application/json" }).end(JSON.stringify(denied));
+    } else {
+      res.writeHead(statusCode, headers);
+      proxyRes.pipe(res);
+    }
+  }
+
   async bearerTokenMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
     const organizationId = req.params.organizationId;
     assert(organizationId, "Organization ID is required.");
+    const tenant: Tenant = res.locals["tenant"] ?? { key: organizationId, subdomain: false };
 
     const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
-    let userId: string | undefined;
+    let payload: JWTPayload;
 
     if (!token) {
-      res.set("WWW-Authenticate", this.wwwAuthenticateHeader).status(401).json({ error: "No token provided." });
+      this.metrics.authFailure("missing_token");
+      res.set("WWW-Authenticate", this.wwwAuthenticateHeader(tenant));
+      this.sendMcpError(req, res, 401, JsonRpcErrorCode.Unauthorized, "No token provided.");
       return;
     }
 
     try {
-      const { payload } = await jwtVerify(token, this.workosJwks, {
-        issuer: this.config.workosAuthorizationServerUrl,
-      });
-      userId = payload.sub;
+      // Gateway-issued tokens are scoped to a single organization by their audience
+      const authorizationServer = this.authorizationServer;
+      const resource = this.tenantUrl(tenant);
+      payload = authorizationServer
+        ? await this.verifyToken(token, `${organizationId} ${resource}`, () =>
+            authorizationServer.verifyAccessToken(token, organizationId, resource)
+          )
+        : await this.verifyWorkOSToken(token);
     } catch {
-      res.set("WWW-Authenticate", this.wwwAuthenticateHeader).status(401).json({ error: "Invalid bearer token." });
+      this.metrics.authFailure("invalid_token");
+      res.set("WWW-Authenticate", this.wwwAuthenticateHeader(tenant));
+      this.sendMcpError(req, res, 401, JsonRpcErrorCode.Unauthorized, "Invalid bearer token.");
       return;
     }
+    const userId = payload.sub;
     assert(userId, "User ID is required in the JWT payload"); // type narrowing for userId
 
-    // FIXME: This is a workaround because the WorkOS JWT does not include the organization ID.
-    // As a result, this request needs to be made to validate the users membership in the organization.
-    const response = await this.workos.userManagement.listOrganizationMemberships({
-      userId,
-      organizationId,
-      statuses: ["active"],
-    });
+    const membership =
+      this.getMembershipFromClaims(payload, organizationId) ??
+      (await this.getMembership(userId, organizationId, payload.exp));
 
-    if (response.data.length === 0) {
+    if (!membership.isMember) {
       this.logger.warn(`User ${userId} is not a member of the organization ${organizationId}`);
-      res.set("WWW-Authenticate", this.wwwAuthenticateHeader).status(401).json({ error: "Invalid bearer token." });
+      this.metrics.authFailure("not_member");
+      res.set("WWW-Authenticate", this.wwwAuthenticateHeader(tenant));
+      this.sendMcpError(req, res, 401, JsonRpcErrorCode.Unauthorized, "Invalid bearer token.");
       return;
     }
 
+    res.locals["userId"] = userId;
+    res.locals["organizationId"] = organizationId;
+    res.locals["membership"] = membership;
     next();
   }
 
+  /**
+   * Enforces the organization's access policy on the user that bearerTokenMiddleware authenticated.
+   */
+  async policyMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+    const organizationId = req.params.organizationId;
+    const userId = res.locals["userId"] as string;
+    const membership = res.locals["membership"] as CachedMembership;
+    const policy = await this.mapper.getPolicy(organizationId);
+    if (policy) {
+      const reason = evaluatePolicy(policy, await this.getAccessSubject(userId, organizationId, membership, policy));
+      if (reason) {
+        this.logger.warn(`User ${userId} was denied access to the organization ${organizationId}: ${reason}`);
+        this.metrics.authFailure("policy_denied");
+        this.sendMcpError(req, res, 403, JsonRpcErrorCode.Forbidden, reason);
+        return;
+      }
+    }
+    next();
+  }
+
+  /**
+   * Applies the per-user and per-organization token buckets, using the organization's overrides from the
+   * mapping where present. Fails open if the rate limit store is unavailable.
+   */
+  async rateLimitMiddleware(req: Request<{ organizationId: string }>, res: Response, next: NextFunction) {
+    const organizationId = req.params.organizationId;
+    const userId = res.locals["userId"] as string;
+    const overrides = await this.mapper.getRateLimits(organizationId);
+    const buckets: [string, RateLimit][] = [
+      [`org:${organizationId}:user:${userId}`, overrides?.user ?? this.config.userRateLimit],
+      [`org:${organizationId}`, overrides?.organization ?? this.config.organizationRateLimit],
+    ];
+
+    const results: RateLimitResult[] = [];
+    try {
+      for (const [key, limit] of buckets) {
+        if (limit.requestsPerMinute <= 0) {
+          continue;
+        }
+        const result = await this.rateLimitStore.consume(key, limit);
+        results.push(result);
+        if (!result.allowed) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Rate limit store failed, allowing request: ${String(error)}`);
+      next();
+      return;
+    }
+
+    // Report the bucket that rejected the request, or else the one closest to running out
+    const result = results.find(r => !r.allowed) ?? results.sort((a, b) => a.remaining - b.remaining)[0];
+    if (!result) {
+      next();
+      return;
+    }
+
+    res.set({
+      "RateLimit-Limit": String(result.limit),
+      "RateLimit-Remaining": String(result.remaining),
+      "RateLimit-Reset": String(Math.ceil(result.resetMs / 1000)),
+    });
+    if (!result.allowed) {
+      this.logger.warn(`Rate limit exceeded for user ${userId} in organization ${organizationId}`);
+      res.set("Retry-After", String(Math.ceil(result.retryAfterMs / 1000)));
+      this.sendMcpError(req, res, 429, JsonRpcErrorCode.RateLimited, "Too many requests.");
+      return;
+    }
+    next();
+  }
+
+  /**
+   * In claims mode, authorizes the request from the token alone when its org_id claim matches the organization.
+   * Returns undefined when the membership has to be looked up instead.
+   */
+  private getMembershipFromClaims(payload: JWTPayload, organizationId: string): CachedMembership | undefined {
+    if (this.config.authorizationMode !== "claims" || payload["org_id"] !== organizationId) {
+      return undefined;
+    }
+    // The claims of tokens issued before the membership last changed may be outdated
+    const changedAt = this.membershipChanges.get(`${payload.sub}:${organizationId}`);
+    if (changedAt !== undefined && (payload.iat === undefined || payload.iat * 1000 <= changedAt)) {
+      this.logger.debug(`Ignored the claims of a token issued before the membership of user ${payload.sub} changed`);
+      return undefined;
+    }
+    this.logger.debug(`Authorized user ${payload.sub} for organization ${organizationId} from token claims`);
+    const role = payload["role"];
+    const permissions = payload["permissions"];
+    return {
+      isMember: true,
+      role: typeof role === "string" ? role : undefined,
+      permissions: Array.isArray(permissions) ? permissions.filter(p => typeof p === "string") : [],
+    };
+  }
+
+  /**
+   * Forgets everything cached about a user's membership in an organization after WorkOS reported a change: the
+   * membership, the user's email, the organization's role permissions and the user's verified tokens. Role and
+   * permission claims of tokens issued before the change are no longer trusted, so that removals and downgrades
+   * apply to the next request even in claims mode. Only this instance is affected; other instances keep their
+   * caches until the entries expire, unless they receive the webhook too.
+   */
+  async invalidateMembership(userId: string, organizationId: string): Promise<void> {
+    await this.membershipCache.delete(userId, organizationId);
+    this.userEmailCache.delete(userId);
+    this.rolePermissionsCache.deleteMatching(key => key.startsWith(`${organizationId}:`));
+    this.verifiedTokens.deleteMatching((_key, payload) => payload.sub === userId);
+    this.membershipChanges.set(
+      `${userId}:${organizationId}`,
+      Date.now(),
+      Math.max(MEMBERSHIP_CHANGE_TTL_MS, this.config.accessTokenTtl * 1000)
+    );
+  }
+
+  /**
+   * Looks up the user's active membership in the organization, consulting the membership cache first.
+   * Cached entries never outlive the token they were looked up for.
+   */
+  private async getMembership(
+    userId: string,
+    organizationId: string,
+    tokenExpiresAt: number | undefined
+  ): Promise<CachedMembership> {
+    const cached = await this.membershipCache.get(userId, organizationId);
+    if (cached) {
+      this.logger.debug(`Membership cache hit for user ${userId} in organization ${organizationId}`);
+      return cached;
+    }
+    this.logger.debug(`Membership cache miss for user ${userId} in organization ${organizationId}`);
+
+    // The WorkOS JWT does not include the organization ID, so membership has to be validated against the API.
+    const response = await this.callWorkOS("listOrganizationMemberships", () =>
+      this.workos.userManagement.listOrganizationMemberships({
+        userId,
+        organizationId,
+        statuses: ["active"],
+      })
+    );
+    const record = response.data[0];
+    const membership: CachedMembership = {
+      isMember: record !== undefined,
+      role: record?.role.slug,
+      permissions: undefined,
+    };
+
+    const ttlSeconds = membership.isMember ? this.config.membershipCacheTtl : this.config.membershipCacheNegativeTtl;
+    let ttlMs = ttlSeconds * 1000;
+    if (tokenExpiresAt !== undefined) {
+      ttlMs = Math.min(ttlMs, tokenExpiresAt * 1000 - Date.now());
+    }
+    await this.membershipCache.set(userId, organizationId, membership, ttlMs);
+
+    return membership;
+  }
+
+  /**
+   * Collects what the policy needs to know about the user, only calling WorkOS for details the policy checks.
+   */
+  private async getAccessSubject(
+    userId: string,
+    organizationId: string,
+    membership: CachedMembership,
+    policy: AccessPolicy
+  ): Promise<AccessSubject> {
+    let permissions = membership.permissions ?? [];
+    if (policy.requiredPermissions && membership.permissions === undefined && membership.role) {
+      permissions = await this.getRolePermissions(organizationId, membership.role);
+    }
+
+    let email: string | undefined;
+    if (policy.allowedEmailDomains) {
+      email = this.userEmailCache.get(userId);
+      if (email === undefined) {
+        email = (await this.callWorkOS("getUser", () => this.workos.userManagement.getUser(userId))).email;
+        this.userEmailCache.set(userId, email, this.config.membershipCacheTtl * 1000);
+      }
+    }
+
+    return { userId, role: membership.role, permissions, email };
+  }
+
+  private async getRolePermissions(organizationId: string, role: string): Promise<string[]> {
+    const key = `${organizationId}:${role}`;
+    let permissions = this.rolePermissionsCache.get(key);
+    if (permissions === undefined) {
+      const roles = await this.callWorkOS("listOrganizationRoles", () =>
+        this.workos.organizations.listOrganizationRoles({ organizationId })
+      );
+      permissions = roles.data.find(r => r.slug === role)?.permissions ?? [];
+      this.rolePermissionsCache.set(key, permissions, this.config.membershipCacheTtl * 1000);
+    }
+    return permissions;
+  }
+
+  private async callWorkOS<T>(operation: string, call: () => Promise<T>): Promise<T> {
+    const startedAt = performance.now();
+    try {
+      const result = await call();
+      this.metrics.observeWorkOS(operation, true, (performance.now() - startedAt) / 1000);
+      return result;
+    } catch (error) {
+      this.metrics.observeWorkOS(operation, false, (performance.now() - startedAt) / 1000);
+      throw error;
+    }
+  }
+
+  /**
+   * Counts every request and its duration once the response has finished or been aborted.
+   * The organization is only used as a label once the request has been authenticated for it,
+   * so that arbitrary organization IDs in unauthenticated requests do not create new series.
+   */
+  metricsMiddleware(req: Request, res: Response, next: NextFunction) {
+    const startedAt = performance.now();
+    res.once("close", () => {
+      this.metrics.observeRequest(
+        res.locals["organizationId"] ?? "unknown",
+        req.route?.path ?? "unmatched",
+        req.method,
+        res.statusCode,
+        (performance.now() - startedAt) / 1000
+      );
+    });
+    next();
+  }
+
+  /**
+   * Tracks in-flight requests so that stop() can wait for them, and turns new requests away while draining.
+   * Health endpoints keep answering so that probes see the readiness check fail.
+   */
+  drainMiddleware(req: Request, res: Response, next: NextFunction) {
+    if (this.isDraining) {
+      res.set("Connection", "close");
+      if (req.path !== "/healthz" && req.path !== "/readyz") {
+        res.set("Retry-After", "1");
+        if (MCP_PATH_PATTERN.test(req.path)) {
+          this.sendMcpError(req, res, 503, JsonRpcErrorCode.ShuttingDown, "Gateway is shutting down.");
+        } else {
+          res.status(503).json({ error: "Gateway is shutting down." });
+        }
+        return;
+      }
+    }
+
+    this.inFlight.add(res);
+    res.once("close", () => {
+      this.inFlight.delete(res);
+      if (this.inFlight.size === 0) {
+        this.onIdle?.();
+      }
+    });
+    next();
+  }
+
+  private verifyWorkOSToken(token: string): Promise<JWTPayload> {
+    return this.verifyToken(token, "workos", async () => {
+      const { payload } = await jwtVerify(token, this.workosJwks, {
+        issuer: this.config.workosAuthorizationServerUrl,
+        audience: this.config.workosClientId,
+      });
+      return payload;
+    });
+  }
+
+  /**
+   * Verifies a bearer token, reusing the claims of a token that was verified before until it expires, so that
+   * clients sending the same token on every request only pay for the signature check once. Tokens are cached by
+   * their hash and by what they were verified for, as gateway-issued tokens are only valid at their resource.
+   * Tokens without an expiry and failed verifications are not cached.
+   */
+  private async verifyToken(token: string, context: string, verify: () => Promise<JWTPayload>): Promise<JWTPayload> {
+    const key = `${context} ${createHash("sha256").update(token).digest("base64url")}`;
+    const cached = this.verifiedTokens.get(key);
+    this.metrics.tokenVerification(cached !== undefined);
+    if (cached) {
+      return cached;
+    }
+
+    const payload = await verify();
+    if (payload.exp !== undefined) {
+      this.verifiedTokens.set(key, payload, payload.exp * 1000 - Date.now());
+    }
+    return payload;
+  }
+
+  /**
+   * Fetches the WorkOS JSON Web Key Set so that the first request after startup does not wait for it. Failures
+   * are only logged, since the key set is fetched again when a token is verified.
+   */
+  private async prewarmJwks(): Promise<void> {
+    try {
+      await this.workosJwks.reload();
+      this.logger.info("Fetched the WorkOS JSON Web Key Set");
+    } catch (error) {
+      this.logger.warn(
+        `Could not fetch the WorkOS JSON Web Key Set, it will be fetched on first use: ${String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Reports whether the gateway can serve MCP traffic, with the result of each check.
+   * Fails while the gateway is shutting down so that load balancers stop routing to it.
+   */
+  async readinessHandler(_req: Request, res: Response) {
+    const report = await runReadinessChecks(
+      {
+        draining: async () => {
+          if (this.isDraining) {
+            throw new Error("Gateway is shutting down");
+          }
+        },
+        mapping: async () => {
+          if (!(await this.mapper.isReady())) {
+            throw new Error("Mapping has not been loaded");
+          }
+        },
+        jwks: async () => {
+          // Only fetch when the cached key set is missing or stale, which also pre-warms it for token verification
+          if (!this.workosJwks.fresh) {
+            await this.workosJwks.reload();
+          }
+        },
+        upstream: async () => {
+          // Any HTTP response means the Ragie MCP server is reachable. Upstreams set per organization in the mapping
+          // are not checked, since one unreachable organization should not take the gateway out of rotation for all.
+          await fetch(this.config.ragieBaseUrl, {
+            method: "HEAD",
+            signal: AbortSignal.timeout(READINESS_CHECK_TIMEOUT_MS),
+          });
+        },
+      },
+      READINESS_CHECK_TIMEOUT_MS
+    );
+    res.status(report.status === "ok" ? 200 : 503).json(report);
+  }
+
+  /**
+   * Requires METRICS_TOKEN as a bearer token when one is configured.
+   */
+  metricsAuthMiddleware(req: Request, res: Response, next: NextFunction) {
+    const metricsToken = this.config.metricsToken;
+    const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+    if (metricsToken !== undefined && (token === undefined || !tokenMatches(token, metricsToken))) {
+      res.set("WWW-Authenticate", 'Bearer realm="metrics"').status(401).json({ error: "Invalid metrics credentials." });
+      return;
+    }
+    next();
+  }
+
+  async metricsHandler(_req: Request, res: Response) {
+    res.set("Content-Type", this.metrics.registry.contentType).send(await this.metrics.registry.metrics());
+  }
+
+  private isAdminApiEnabled(): boolean {
+    return this.config.adminToken !== undefined || this.config.adminOrganizationId !== undefined;
+  }
+
+  private createAdminApi(): AdminApi {
+    return new AdminApi({
+      mapperConfig: this.config,
+      store: isMappingStore(this.mapper) ? this.mapper : undefined,
+      logger: this.logger,
+      auditLogger: this.auditLogger,
+      authenticate: this.authenticateAdmin.bind(this),
+    });
+  }
+
+  /**
+   * Accepts the static admin token, or a WorkOS access token of a user with the admin role in the admin
+   * organization. Returns the identity recorded in audit events.
+   */
+  async authenticateAdmin(token: string): Promise<string | undefined> {
+    const adminToken = this.config.adminToken;
+    if (adminToken !== undefined && tokenMatches(token, adminToken)) {
+      return "admin-token";
+    }
+
+    const organizationId = this.config.adminOrganizationId;
+    if (organizationId === undefined) {
+      return undefined;
+    }
+    let payload: JWTPayload;
+    try {
+      payload = await this.verifyWorkOSToken(token);
+    } catch {
+      return undefined;
+    }
+    const userId = payload.sub;
+    if (!userId) {
+      return undefined;
+    }
+    const membership =
+      this.getMembershipFromClaims(payload, organizationId) ??
+      (await this.getMembership(userId, organizationId, payload.exp));
+    if (!membership.isMember || membership.role !== this.config.adminRole) {
+      this.logger.warn(`User ${userId} is not an admin of the organization ${organizationId}`);
+      return undefined;
+    }
+    return userId;
+  }
+
+  /**
+   * Serves an auxiliary app, such as /metrics or the admin API, on its own port so that it does not have to be
+   * exposed alongside the gateway.
+   */
+  private startAuxiliaryServer(name: string, app: express.Application, port: number): Promise<Server> {
+    return new Promise((resolve, reject) => {
+      const server = app.listen(port, (error?: Error) => {
+        if (error) {
+          this.logger.error(`Failed to start ${name} server:`, error);
+          reject(error);
+          return;
+        }
+        resolve(server);
+      });
+    });
+  }
+
+  private async stopAuxiliaryServer(server: Server | null): Promise<void> {
+    if (server) {
+      await new Promise(resolve => {
+        server.close(resolve);
+        server.closeAllConnections();
+      });
+    }
+  }
+
   async start(): Promise<void> {
     if (this.isRunning) {
       this.logger.warn("Gateway is already running");
@@ -180,8 +1452,26 @@ export class Gateway extends EventEmitter {
     }
 
     this.logger.info(`Starting Gateway on port ${this.config.port}`);
+    this.isDraining = false;
     this.logger.info(`Base URL: ${this.config.baseUrl}`);
 
+    if (this.config.jwksPrewarm) {
+      await this.prewarmJwks();
+    }
+
+    if (this.config.metricsEnabled && this.config.metricsPort !== undefined) {
+      const metricsApp = express();
+      metricsApp.get("/metrics", this.metricsAuthMiddleware.bind(this), this.metricsHandler.bind(this));
+      this.metricsServer = await this.startAuxiliaryServer("metrics", metricsApp, this.config.metricsPort);
+      this.logger.info(`Metrics available on port ${this.config.metricsPort}`);
+    }
+    if (this.isAdminApiEnabled() && this.config.adminPort !== undefined) {
+      const adminApp = express();
+      adminApp.use("/admin", this.createAdminApi().router);
+      this.adminServer = await this.startAuxiliaryServer("admin", adminApp, this.config.adminPort);
+      this.logger.info(`Admin API available on port ${this.config.adminPort}`);
+    }
+
     return new Promise((resolve, reject) => {
       this.server = this.app.listen(this.config.port, (error?: Error) => {
         if (error) {
@@ -199,6 +1489,11 @@ export class Gateway extends EventEmitter {
     });
   }
 
+  /**
+   * Stops accepting connections and waits up to the shutdown grace period for in-flight requests,
+   * including SSE streams, before closing the connections that are still open.
+   * Emits "draining", then "drained" or "forceClosed", then "stopped".
+   */
   async stop(): Promise<void> {
     if (!this.isRunning) {
       this.logger.warn("Gateway is not running");
@@ -206,30 +1501,66 @@ export class Gateway extends EventEmitter {
     }
 
     this.logger.info("Stopping Gateway...");
+    this.isDraining = true;
+    this.emit("draining");
 
-    return new Promise(resolve => {
-      if (this.server) {
-        if (this.server.listening) {
-          this.server.close((error?: Error) => {
-            if (error) {
-              this.logger.error("Failed to stop server:", error);
-              resolve(void 0);
-              return;
-            }
+    await this.stopAuxiliaryServer(this.metricsServer);
+    this.metricsServer = null;
+    await this.stopAuxiliaryServer(this.adminServer);
+    this.adminServer = null;
 
-            this.isRunning = false;
-            this.emit("stopped");
-            this.logger.info("Gateway stopped successfully");
-            resolve(void 0);
-          });
-        }
-      } else {
-        this.isRunning = false;
-        this.emit("stopped");
-        this.logger.info("Gateway stopped successfully");
-        resolve(void 0);
+    const server = this.server;
+    if (server) {
+      const closed = new Promise<void>(resolve => {
+        server.close((error?: Error) => {
+          if (error) {
+            this.logger.error("Failed to stop server:", error);
+          }
+          resolve();
+        });
+      });
+      await this.drain(server);
+      await closed;
+      this.server = null;
+    }
+
+    this.isRunning = false;
+    this.emit("stopped");
+    this.logger.info("Gateway stopped successfully");
+  }
+
+  private async drain(server: Server): Promise<void> {
+    // Responses that have not started yet can still tell keep-alive clients to reconnect elsewhere
+    for (const res of this.inFlight) {
+      if (!res.headersSent) {
+        res.set("Connection", "close");
       }
+    }
+
+    const gracePeriodMs = this.config.shutdownGracePeriod * 1000;
+    const drained = await new Promise<boolean>(resolve => {
+      if (this.inFlight.size === 0) {
+        resolve(true);
+        return;
+      }
+      this.logger.info(`Waiting up to ${gracePeriodMs}ms for ${this.inFlight.size} in-flight requests`);
+      const timer = setTimeout(() => resolve(false), gracePeriodMs);
+      this.onIdle = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
     });
+    this.onIdle = null;
+
+    if (drained) {
+      this.emit("drained");
+      server.closeIdleConnections();
+    } else {
+      const remaining = this.inFlight.size;
+      this.logger.warn(`Shutdown grace period expired, closing ${remaining} in-flight requests`);
+      this.emit("forceClosed", remaining);
+      server.closeAllConnections();
+    }
   }
 
   getConfig(): Config {
@@ -0,0 +1,44 @@
+/**
+ * Readiness checks for the Ragie MCP Gateway
+ */
+
+export interface CheckResult {
+  status: "ok" | "fail";
+  message?: string;
+}
+
+export interface ReadinessReport {
+  status: "ok" | "fail";
+  checks: Record<string, CheckResult>;
+}
+
+/**
+ * A check resolves when healthy and rejects with the reason otherwise.
+ */
+export type ReadinessCheck = () => Promise<void>;
+
+export async function runReadinessChecks(
+  checks: Record<string, ReadinessCheck>,
+  timeoutMs: number
+): Promise<ReadinessReport> {
+  const entries = await Promise.all(
+    Object.entries(checks).map(async ([name, check]): Promise<[string, CheckResult]> => {
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      });
+      try {
+        await Promise.race([check(), timeout]);
+        return [name, { status: "ok" }];
+      } catch (error) {
+        return [name, { status: "fail", message: (error as Error)?.message ?? String(error) }];
+      } finally {
+        clearTimeout(timer);
+      }
+    })
+  );
+
+  const results = Object.fromEntries(entries);
+  const status = entries.every(([, result]) => result.status === "ok") ? "ok" : "fail";
+  return { status, checks: results };
+}
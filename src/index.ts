@@ -7,18 +7,21 @@
 import dotenv from "dotenv";
 import { Gateway } from "./gateway.js";
 import { createLogger } from "./logger.js";
-import { getConfigFromEnv } from "./config.js";
-import { loadMapper, Mapper } from "./mapping.js";
+import { Config, getConfigFromEnv } from "./config.js";
+import { HttpMapper, loadMapper, Mapper, ReloadableMapper, SqlMapper } from "./mapping.js";
 import assert from "assert";
+import { createRedisClient, RedisRateLimitStore } from "./rate-limit.js";
+import { encryptSecret } from "./secrets.js";
+import type winston from "winston";
 
-// Load environment variables
-dotenv.config();
+const command = process.argv[2];
+
+// Load environment variables, quietly for the subcommand whose output is meant to be copied
+dotenv.config({ quiet: command === "encrypt-key" });
 
-const config = getConfigFromEnv();
-const logger = createLogger("Main", config.logLevel, config.logFormat);
 const gracefulShutdown = process.env["NODE_ENV"] === "development" ? false : true;
 
-async function main(): Promise<void> {
+async function main(config: Config, logger: winston.Logger): Promise<void> {
   let mapper: Mapper;
   try {
     mapper = loadMapper(config);
@@ -28,24 +31,93 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const gateway = new Gateway(config, mapper);
+  if (mapper instanceof HttpMapper && !(await mapper.reload())) {
+    // Polling keeps retrying, and readiness fails until the mapping has been loaded
+    logger.warn("Could not load the mapping, MCP requests will fail until it is available");
+  }
+
+  if (mapper instanceof ReloadableMapper || mapper instanceof HttpMapper) {
+    const reloadableMapper = mapper;
+    if (config.mappingReloadInterval > 0) {
+      reloadableMapper.watch(config.mappingReloadInterval * 1000);
+    }
+    process.on("SIGHUP", () => {
+      logger.info("Received SIGHUP, reloading mapping...");
+      void reloadableMapper.reload();
+    });
+  }
+
+  const redis = config.rateLimitRedisUrl ? createRedisClient(config.rateLimitRedisUrl) : undefined;
+  redis?.on("error", (error: unknown) => logger.warn(`Rate limit Redis connection failed: ${String(error)}`));
+  const gateway = new Gateway(config, mapper, redis ? { rateLimitStore: new RedisRateLimitStore(redis) } : {});
   await gateway.start();
 
   logger.info("MCP Gateway started successfully");
 
-  process.on("SIGINT", async () => {
+  let shuttingDown = false;
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logger.warn(`Received ${signal} during shutdown, exiting immediately...`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+
     if (gracefulShutdown) {
-      logger.info("Received SIGINT, shutting down gracefully...");
+      logger.info(`Received ${signal}, shutting down gracefully...`);
       await gateway.stop();
+      await redis?.quit();
+      if (mapper instanceof SqlMapper) {
+        await mapper.close();
+      }
     } else {
-      logger.info("Received SIGINT, shutting down immediately...");
+      logger.info(`Received ${signal}, shutting down immediately...`);
     }
     process.exit(0);
-  });
+  };
+
+  // Kubernetes and most process managers send SIGTERM, while Ctrl+C sends SIGINT
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8").trim();
 }
 
-// Start the application
-main().catch(error => {
-  logger.error(error);
-  process.exit(1);
-});
+/**
+ * Encrypts an API key read from stdin with GATEWAY_MASTER_KEY and prints the value to paste into the mapping.
+ * The key is read from stdin rather than the command line so that it does not end up in the shell history.
+ */
+async function encryptKey(): Promise<void> {
+  const masterKey = process.env["GATEWAY_MASTER_KEY"];
+  if (!masterKey) {
+    throw new Error("GATEWAY_MASTER_KEY must be set to encrypt an API key");
+  }
+  if (process.stdin.isTTY) {
+    process.stderr.write("Enter the API key, then press Ctrl+D:\n");
+  }
+  const apiKey = await readStdin();
+  if (!apiKey) {
+    throw new Error("No API key was provided on stdin");
+  }
+  process.stdout.write(encryptSecret(apiKey, masterKey) + "\n");
+}
+
+if (command === "encrypt-key") {
+  encryptKey().catch(error => {
+    process.stderr.write(`${error.message}\n`);
+    process.exit(1);
+  });
+} else {
+  // Start the application
+  const config = getConfigFromEnv();
+  const logger = createLogger("Main", config.logLevel, config.logFormat);
+  main(config, logger).catch(error => {
+    logger.error(error);
+    process.exit(1);
+  });
+}
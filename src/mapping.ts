@@ -1,35 +1,181 @@
 import assert from "assert";
-import { readFileSync } from "fs";
+import { readFileSync, renameSync, rmSync, Stats, statSync, unwatchFile, watchFile, writeFileSync } from "fs";
 import { resolve } from "path";
+import type winston from "winston";
 import z from "zod";
+import { LruCache } from "./cache.js";
 import { Config } from "./config";
+import { createLogger } from "./logger.js";
+import type { ToolFilter } from "./mcp.js";
+import { AccessPolicy, AccessPolicySchema } from "./policy.js";
+import { RateLimit, RateLimitSchema } from "./rate-limit.js";
+import { resolveSecret } from "./secrets.js";
+import { createSqlClient, SqlClient, SqlRow } from "./sql.js";
 
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Resolves organizations to Ragie partitions and settings. File-backed mappers answer synchronously,
+ * while backends that fetch the mapping remotely answer asynchronously, so callers always await lookups.
+ */
 export interface Mapper {
-  hasMapping(organizationId: string): boolean;
-  getPartition(organizationId: string): string;
-  getApiKey(organizationId: string): string;
+  hasMapping(organizationId: string): MaybePromise<boolean>;
+  // Whether the mapping has an entry for the organization, unlike hasMapping, which is also true for organizations
+  // that DefaultMapper serves with the default settings
+  hasEntry(organizationId: string): MaybePromise<boolean>;
+  getPartition(organizationId: string): MaybePromise<string>;
+  getApiKey(organizationId: string): MaybePromise<string>;
+  getPolicy(organizationId: string): MaybePromise<AccessPolicy | undefined>;
+  getToolFilter(organizationId: string): MaybePromise<ToolFilter | undefined>;
+  getRateLimits(organizationId: string): MaybePromise<RateLimitOverrides | undefined>;
+  getUpstream(organizationId: string): MaybePromise<Upstream | undefined>;
+  getSlug(organizationId: string): MaybePromise<string | undefined>;
+  // Returns the organization whose mapping entry has the slug
+  resolveSlug(slug: string): MaybePromise<string | undefined>;
+  isReady(): MaybePromise<boolean>;
+}
+
+/**
+ * Storage of mapping entries as written in the mapping, with API key references unresolved.
+ * Implemented by the backends that the admin API can change.
+ */
+export interface MappingStore {
+  listEntries(): Promise<Record<string, MappingEntry>>;
+  getEntry(organizationId: string): Promise<MappingEntry | undefined>;
+  putEntry(organizationId: string, entry: MappingEntry): Promise<void>;
+  deleteEntry(organizationId: string): Promise<boolean>;
+}
+
+export function isMappingStore(mapper: Mapper): mapper is Mapper & MappingStore {
+  return "putEntry" in mapper;
+}
+
+export interface RateLimitOverrides {
+  user?: RateLimit | undefined;
+  organization?: RateLimit | undefined;
 }
 
 export interface MapperConfig {
   ragieApiKey: string;
   strictApiKeys: boolean;
+  // Decrypts API keys stored as enc:v1: envelopes in the mapping
+  masterKey?: string | undefined;
+}
+
+const RateLimitOverridesSchema = z.object({
+  user: RateLimitSchema.optional(),
+  organization: RateLimitSchema.optional(),
+});
+
+const UpstreamSchema = z.object({
+  url: z.url({ protocol: /^https?$/ }),
+  // Path of the MCP endpoint on the upstream, where {partition} is replaced with the organization's partition
+  pathTemplate: z.string().startsWith("/").optional(),
+});
+
+export type Upstream = z.infer<typeof UpstreamSchema>;
+
+// Slugs are used as path segments and as subdomains, so they must be valid DNS labels
+const SlugSchema = z
+  .string()
+  .max(63)
+  .regex(/^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/, "Slug must contain only lowercase letters, digits and hyphens");
+
+const MappingEntrySchema = z.object({
+  partition: z.string(),
+  slug: SlugSchema.optional(),
+  apiKey: z.string().optional(),
+  policy: AccessPolicySchema.optional(),
+  allowedTools: z.array(z.string()).optional(),
+  deniedTools: z.array(z.string()).optional(),
+  rateLimits: RateLimitOverridesSchema.optional(),
+  upstream: UpstreamSchema.optional(),
+});
+
+/**
+ * Rejects mappings in which two organizations have the same slug.
+ */
+function checkUniqueSlugs(mapping: Record<string, { slug?: string | undefined }>, ctx: z.RefinementCtx): void {
+  const organizationsBySlug = new Map<string, string>();
+  for (const [organizationId, entry] of Object.entries(mapping)) {
+    if (entry.slug === undefined) {
+      continue;
+    }
+    const other = organizationsBySlug.get(entry.slug);
+    if (other !== undefined) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Slug ${entry.slug} is also used by organization ${other}`,
+        path: [organizationId, "slug"],
+      });
+    }
+    organizationsBySlug.set(entry.slug, organizationId);
+  }
 }
 
-const MappingSchema = z.record(
-  z.string(),
-  z.object({
-    partition: z.string(),
-    apiKey: z.string().optional(),
-  })
-);
+const MappingSchema = z.record(z.string(), MappingEntrySchema).superRefine(checkUniqueSlugs);
+
+type Mapping = z.infer<typeof MappingSchema>;
+
+// Entries as they are stored, with keys the gateway does not know, such as comments, kept when they are written back
+const StoredMappingEntrySchema = MappingEntrySchema.loose();
 
-const StrictApiKeyMappingSchema = z.record(
-  z.string(),
-  z.object({
-    partition: z.string(),
-    apiKey: z.string(),
-  })
-);
+const StoredMappingSchema = z.record(z.string(), StoredMappingEntrySchema).superRefine(checkUniqueSlugs);
+
+export type MappingEntry = z.infer<typeof MappingEntrySchema>;
+
+/**
+ * Resolves API keys given as secret references or encrypted values while the mapping is validated.
+ */
+function apiKeySchema(masterKey: string | undefined) {
+  return z.string().transform((value, ctx) => {
+    try {
+      return resolveSecret(value, masterKey);
+    } catch (error) {
+      ctx.addIssue({ code: "custom", message: (error as Error).message });
+      return z.NEVER;
+    }
+  });
+}
+
+function mappingEntrySchema(config: MapperConfig) {
+  const apiKey = apiKeySchema(config.masterKey);
+  return MappingEntrySchema.extend({ apiKey: config.strictApiKeys ? apiKey : apiKey.optional() }).refine(
+    // The default Ragie API key must not be sent to other upstreams
+    entry => !entry.upstream || entry.apiKey !== undefined,
+    { message: "An apiKey is required when upstream is set", path: ["apiKey"] }
+  );
+}
+
+function parseMapping(config: MapperConfig, json: unknown): Mapping {
+  return z.record(z.string(), mappingEntrySchema(config)).superRefine(checkUniqueSlugs).parse(json);
+}
+
+/**
+ * Validates a mapping entry, including that its API key reference resolves, and returns it as it should be stored,
+ * with the reference unresolved and unknown keys kept.
+ */
+export function validateMappingEntry(config: MapperConfig, json: unknown): MappingEntry {
+  mappingEntrySchema(config).parse(json);
+  return StoredMappingEntrySchema.parse(json);
+}
+
+function getToolFilter(entry: Mapping[string] | undefined): ToolFilter | undefined {
+  if (!entry?.allowedTools && !entry?.deniedTools) {
+    return undefined;
+  }
+  return { allowedTools: entry.allowedTools, deniedTools: entry.deniedTools };
+}
+
+function indexSlugs(mapping: Mapping): Map<string, string> {
+  const organizationsBySlug = new Map<string, string>();
+  for (const [organizationId, entry] of Object.entries(mapping)) {
+    if (entry.slug !== undefined) {
+      organizationsBySlug.set(entry.slug, organizationId);
+    }
+  }
+  return organizationsBySlug;
+}
 
 function readJsonFile<T>(filePath: string): T {
   try {
@@ -37,23 +183,50 @@ function readJsonFile<T>(filePath: string): T {
     const fileContents = readFileSync(resolvedPath, "utf-8");
     return JSON.parse(fileContents);
   } catch (error) {
-    throw new Error(`Failed to read JSON file: ${String(error)}`);
+    throw new Error(`Failed to read JSON file: ${describeError(error)}`);
+  }
+}
+
+/**
+ * Replaces the file by renaming a complete copy over it, so that readers never see a partially written mapping.
+ */
+function writeJsonFileAtomically(filePath: string, json: unknown): void {
+  const resolvedPath = resolve(filePath);
+  const tempPath = `${resolvedPath}.${process.pid}.${Date.now()}.tmp`;
+  let mode = 0o600;
+  try {
+    mode = statSync(resolvedPath).mode;
+  } catch {
+    // The file is created with owner-only permissions since it may contain API keys
+  }
+  try {
+    writeFileSync(tempPath, JSON.stringify(json, null, 2) + "\n", { mode });
+    renameSync(tempPath, resolvedPath);
+  } catch (error) {
+    rmSync(tempPath, { force: true });
+    throw error;
   }
 }
 
 export class DefaultMapper implements Mapper {
   private config: MapperConfig;
-  private mapping: z.infer<typeof MappingSchema>;
+  private mapping: Mapping;
+  private organizationsBySlug: Map<string, string>;
 
-  constructor(config: MapperConfig, mapping: z.infer<typeof MappingSchema>) {
+  constructor(config: MapperConfig, mapping: Mapping) {
     this.config = config;
     this.mapping = mapping;
+    this.organizationsBySlug = indexSlugs(mapping);
   }
 
   hasMapping(_organizationId: string): boolean {
     return true;
   }
 
+  hasEntry(organizationId: string): boolean {
+    return this.mapping[organizationId] !== undefined;
+  }
+
   getPartition(organizationId: string): string {
     const entry = this.mapping[organizationId];
     if (entry) {
@@ -78,26 +251,62 @@ export class DefaultMapper implements Mapper {
     }
   }
 
+  getPolicy(organizationId: string): AccessPolicy | undefined {
+    return this.mapping[organizationId]?.policy;
+  }
+
+  getToolFilter(organizationId: string): ToolFilter | undefined {
+    return getToolFilter(this.mapping[organizationId]);
+  }
+
+  getRateLimits(organizationId: string): RateLimitOverrides | undefined {
+    return this.mapping[organizationId]?.rateLimits;
+  }
+
+  getUpstream(organizationId: string): Upstream | undefined {
+    return this.mapping[organizationId]?.upstream;
+  }
+
+  getSlug(organizationId: string): string | undefined {
+    return this.mapping[organizationId]?.slug;
+  }
+
+  resolveSlug(slug: string): string | undefined {
+    return this.organizationsBySlug.get(slug);
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
   static load(config: MapperConfig, mappingFile: string): DefaultMapper {
-    const json = readJsonFile(mappingFile);
-    const mapping = config.strictApiKeys ? StrictApiKeyMappingSchema.parse(json) : MappingSchema.parse(json);
-    return new DefaultMapper(config, mapping);
+    return DefaultMapper.parse(config, readJsonFile(mappingFile));
+  }
+
+  static parse(config: MapperConfig, json: unknown): DefaultMapper {
+    return new DefaultMapper(config, parseMapping(config, json));
   }
 }
 
 export class StrictMapper implements Mapper {
   private config: MapperConfig;
-  private mapping: z.infer<typeof MappingSchema>;
+  private mapping: Mapping;
+  private organizationsBySlug: Map<string, string>;
 
-  constructor(config: MapperConfig, mapping: z.infer<typeof MappingSchema>) {
+  constructor(config: MapperConfig, mapping: Mapping) {
     this.config = config;
     this.mapping = mapping;
+    this.organizationsBySlug = indexSlugs(mapping);
   }
 
   hasMapping(organizationId: string): boolean {
     return this.mapping[organizationId] !== undefined;
   }
 
+  hasEntry(organizationId: string): boolean {
+    return this.hasMapping(organizationId);
+  }
+
   getPartition(organizationId: string): string {
     const entry = this.mapping[organizationId];
     if (entry) {
@@ -122,27 +331,532 @@ export class StrictMapper implements Mapper {
     }
   }
 
+  getPolicy(organizationId: string): AccessPolicy | undefined {
+    return this.mapping[organizationId]?.policy;
+  }
+
+  getToolFilter(organizationId: string): ToolFilter | undefined {
+    return getToolFilter(this.mapping[organizationId]);
+  }
+
+  getRateLimits(organizationId: string): RateLimitOverrides | undefined {
+    return this.mapping[organizationId]?.rateLimits;
+  }
+
+  getUpstream(organizationId: string): Upstream | undefined {
+    return this.mapping[organizationId]?.upstream;
+  }
+
+  getSlug(organizationId: string): string | undefined {
+    return this.mapping[organizationId]?.slug;
+  }
+
+  resolveSlug(slug: string): string | undefined {
+    return this.organizationsBySlug.get(slug);
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
   static load(config: MapperConfig, mappingFile: string): StrictMapper {
-    const json = readJsonFile(mappingFile);
-    const mapping = config.strictApiKeys ? StrictApiKeyMappingSchema.parse(json) : MappingSchema.parse(json);
-    return new StrictMapper(config, mapping);
+    return StrictMapper.parse(config, readJsonFile(mappingFile));
+  }
+
+  static parse(config: MapperConfig, json: unknown): StrictMapper {
+    return new StrictMapper(config, parseMapping(config, json));
   }
 }
 
+/**
+ * Wraps a file-backed mapper so the mapping file can be reloaded without restarting the gateway.
+ * A new mapping is validated before it is swapped in; if it is invalid, the last good mapping is kept.
+ * Changes made through the store methods are written back to the file and applied immediately.
+ */
+export class ReloadableMapper implements Mapper, MappingStore {
+  private mappingFile: string;
+  private loader: (mappingFile: string) => Mapper;
+  private logger: winston.Logger;
+  private mapper: Mapper;
+  private watching: boolean;
+
+  constructor(mappingFile: string, loader: (mappingFile: string) => Mapper, logger: winston.Logger) {
+    this.mappingFile = mappingFile;
+    this.loader = loader;
+    this.logger = logger;
+    this.mapper = loader(mappingFile);
+    this.watching = false;
+  }
+
+  hasMapping(organizationId: string): MaybePromise<boolean> {
+    return this.mapper.hasMapping(organizationId);
+  }
+
+  hasEntry(organizationId: string): MaybePromise<boolean> {
+    return this.mapper.hasEntry(organizationId);
+  }
+
+  getPartition(organizationId: string): MaybePromise<string> {
+    return this.mapper.getPartition(organizationId);
+  }
+
+  getApiKey(organizationId: string): MaybePromise<string> {
+    return this.mapper.getApiKey(organizationId);
+  }
+
+  getPolicy(organizationId: string): MaybePromise<AccessPolicy | undefined> {
+    return this.mapper.getPolicy(organizationId);
+  }
+
+  getToolFilter(organizationId: string): MaybePromise<ToolFilter | undefined> {
+    return this.mapper.getToolFilter(organizationId);
+  }
+
+  getRateLimits(organizationId: string): MaybePromise<RateLimitOverrides | undefined> {
+    return this.mapper.getRateLimits(organizationId);
+  }
+
+  getUpstream(organizationId: string): MaybePromise<Upstream | undefined> {
+    return this.mapper.getUpstream(organizationId);
+  }
+
+  getSlug(organizationId: string): MaybePromise<string | undefined> {
+    return this.mapper.getSlug(organizationId);
+  }
+
+  resolveSlug(slug: string): MaybePromise<string | undefined> {
+    return this.mapper.resolveSlug(slug);
+  }
+
+  isReady(): MaybePromise<boolean> {
+    return this.mapper.isReady();
+  }
+
+  /**
+   * Reloads the mapping file, returning whether the new mapping was applied.
+   */
+  reload(): boolean {
+    try {
+      this.mapper = this.loader(this.mappingFile);
+      this.logger.info(`Reloaded mapping file ${this.mappingFile}`);
+      return true;
+    } catch (error) {
+      const message = describeError(error);
+      this.logger.error(`Mapping file ${this.mappingFile} is invalid, keeping previous mapping: ${message}`);
+      return false;
+    }
+  }
+
+  async listEntries(): Promise<Record<string, MappingEntry>> {
+    return this.readEntries();
+  }
+
+  async getEntry(organizationId: string): Promise<MappingEntry | undefined> {
+    return this.readEntries()[organizationId];
+  }
+
+  async putEntry(organizationId: string, entry: MappingEntry): Promise<void> {
+    this.writeEntries({ ...this.readEntries(), [organizationId]: entry });
+  }
+
+  async deleteEntry(organizationId: string): Promise<boolean> {
+    const { [organizationId]: entry, ...entries } = this.readEntries();
+    if (!entry) {
+      return false;
+    }
+    this.writeEntries(entries);
+    return true;
+  }
+
+  private readEntries(): Record<string, MappingEntry> {
+    return StoredMappingSchema.parse(readJsonFile(this.mappingFile));
+  }
+
+  private writeEntries(entries: Record<string, MappingEntry>): void {
+    // Checked before writing, since a file with duplicate slugs could not be reloaded
+    writeJsonFileAtomically(this.mappingFile, StoredMappingSchema.parse(entries));
+    if (!this.reload()) {
+      throw new Error(`Mapping file ${this.mappingFile} was written but could not be reloaded`);
+    }
+  }
+
+  watch(intervalMs: number): void {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+    // Polling follows symlinks, so this also picks up atomic replacements such as Kubernetes ConfigMap updates
+    watchFile(this.mappingFile, { interval: intervalMs, persistent: false }, (current: Stats, previous: Stats) => {
+      if (current.mtimeMs !== previous.mtimeMs || current.ino !== previous.ino) {
+        this.reload();
+      }
+    });
+  }
+
+  close(): void {
+    if (this.watching) {
+      unwatchFile(this.mappingFile);
+      this.watching = false;
+    }
+  }
+}
+
+/**
+ * Fetches the mapping document from an HTTP endpoint and polls it for changes. The endpoint serves the same JSON
+ * as a mapping file; its ETag is sent back with If-None-Match so that an unchanged mapping is not downloaded again.
+ * The last good mapping is kept in memory when a fetch fails or returns an invalid mapping.
+ */
+export class HttpMapper implements Mapper {
+  private url: string;
+  private token: string | undefined;
+  private loader: (json: unknown) => Mapper;
+  private logger: winston.Logger;
+  private mapper: Mapper | null;
+  private etag: string | undefined;
+  private timer: NodeJS.Timeout | null;
+
+  constructor(url: string, loader: (json: unknown) => Mapper, logger: winston.Logger, token?: string) {
+    this.url = url;
+    this.token = token;
+    this.loader = loader;
+    this.logger = logger;
+    this.mapper = null;
+    this.etag = undefined;
+    this.timer = null;
+  }
+
+  hasMapping(organizationId: string): MaybePromise<boolean> {
+    return this.current().hasMapping(organizationId);
+  }
+
+  hasEntry(organizationId: string): MaybePromise<boolean> {
+    return this.current().hasEntry(organizationId);
+  }
+
+  getPartition(organizationId: string): MaybePromise<string> {
+    return this.current().getPartition(organizationId);
+  }
+
+  getApiKey(organizationId: string): MaybePromise<string> {
+    return this.current().getApiKey(organizationId);
+  }
+
+  getPolicy(organizationId: string): MaybePromise<AccessPolicy | undefined> {
+    return this.current().getPolicy(organizationId);
+  }
+
+  getToolFilter(organizationId: string): MaybePromise<ToolFilter | undefined> {
+    return this.current().getToolFilter(organizationId);
+  }
+
+  getRateLimits(organizationId: string): MaybePromise<RateLimitOverrides | undefined> {
+    return this.current().getRateLimits(organizationId);
+  }
+
+  getUpstream(organizationId: string): MaybePromise<Upstream | undefined> {
+    return this.current().getUpstream(organizationId);
+  }
+
+  getSlug(organizationId: string): MaybePromise<string | undefined> {
+    return this.current().getSlug(organizationId);
+  }
+
+  resolveSlug(slug: string): MaybePromise<string | undefined> {
+    return this.current().resolveSlug(slug);
+  }
+
+  isReady(): boolean {
+    return this.mapper !== null;
+  }
+
+  /**
+   * Fetches the mapping, returning whether a new mapping was applied.
+   */
+  async reload(): Promise<boolean> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.token) {
+      headers["Authorization"] = `Bearer ${this.token}`;
+    }
+    if (this.mapper && this.etag) {
+      headers["If-None-Match"] = this.etag;
+    }
+
+    try {
+      const response = await fetch(this.url, { headers, signal: AbortSignal.timeout(10_000) });
+      if (response.status === 304) {
+        return false;
+      }
+      if (!response.ok) {
+        throw new Error(`Mapping endpoint responded with status ${response.status}`);
+      }
+      this.mapper = this.loader(await response.json());
+      this.etag = response.headers.get("etag") ?? undefined;
+      this.logger.info(`Loaded mapping from ${this.url}`);
+      return true;
+    } catch (error) {
+      const message = describeError(error);
+      this.logger.error(`Could not load mapping from ${this.url}, keeping previous mapping: ${message}`);
+      return false;
+    }
+  }
+
+  watch(intervalMs: number): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => void this.reload(), intervalMs);
+    this.timer.unref();
+  }
+
+  close(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private current(): Mapper {
+    if (!this.mapper) {
+      throw new Error(`Mapping has not been loaded from ${this.url}`);
+    }
+    return this.mapper;
+  }
+}
+
+const SQL_MAPPING_COLUMNS = "partition, slug, api_key, policy, allowed_tools, denied_tools, rate_limits, upstream";
+
+/**
+ * Looks organizations up in a SQL table with one row per organization. JSON settings are stored as text, or as
+ * json/jsonb columns in Postgres, and are validated like mapping file entries. Each lookup, including a miss, is
+ * cached for cacheTtlMs so that the database is not queried on every request.
+ */
+export class SqlMapper implements Mapper, MappingStore {
+  private client: SqlClient;
+  private table: string;
+  private loader: (json: unknown) => Mapper;
+  private cache: LruCache<Mapper>;
+  // Slug lookups are cached separately, with misses stored as an undefined organizationId
+  private slugCache: LruCache<{ organizationId: string | undefined }>;
+  private cacheTtlMs: number;
+
+  constructor(
+    client: SqlClient,
+    table: string,
+    loader: (json: unknown) => Mapper,
+    cacheTtlMs: number,
+    cacheMaxSize: number = 10_000
+  ) {
+    assert(/^[A-Za-z_][A-Za-z0-9_.]*$/.test(table), `Invalid mapping table name: ${table}`);
+    this.client = client;
+    this.table = table;
+    this.loader = loader;
+    this.cache = new LruCache(cacheMaxSize);
+    this.slugCache = new LruCache(cacheMaxSize);
+    this.cacheTtlMs = cacheTtlMs;
+  }
+
+  async hasMapping(organizationId: string): Promise<boolean> {
+    return (await this.lookup(organizationId)).hasMapping(organizationId);
+  }
+
+  async hasEntry(organizationId: string): Promise<boolean> {
+    return (await this.lookup(organizationId)).hasEntry(organizationId);
+  }
+
+  async getPartition(organizationId: string): Promise<string> {
+    return (await this.lookup(organizationId)).getPartition(organizationId);
+  }
+
+  async getApiKey(organizationId: string): Promise<string> {
+    return (await this.lookup(organizationId)).getApiKey(organizationId);
+  }
+
+  async getPolicy(organizationId: string): Promise<AccessPolicy | undefined> {
+    return (await this.lookup(organizationId)).getPolicy(organizationId);
+  }
+
+  async getToolFilter(organizationId: string): Promise<ToolFilter | undefined> {
+    return (await this.lookup(organizationId)).getToolFilter(organizationId);
+  }
+
+  async getRateLimits(organizationId: string): Promise<RateLimitOverrides | undefined> {
+    return (await this.lookup(organizationId)).getRateLimits(organizationId);
+  }
+
+  async getUpstream(organizationId: string): Promise<Upstream | undefined> {
+    return (await this.lookup(organizationId)).getUpstream(organizationId);
+  }
+
+  async getSlug(organizationId: string): Promise<string | undefined> {
+    return (await this.lookup(organizationId)).getSlug(organizationId);
+  }
+
+  async resolveSlug(slug: string): Promise<string | undefined> {
+    const cached = this.slugCache.get(slug);
+    if (cached) {
+      return cached.organizationId;
+    }
+
+    const rows = await this.client.query(`SELECT organization_id FROM ${this.table} WHERE slug = ?`, [slug]);
+    const organizationId = rows[0] ? String(rows[0]["organization_id"]) : undefined;
+    this.slugCache.set(slug, { organizationId }, this.cacheTtlMs);
+    return organizationId;
+  }
+
+  async isReady(): Promise<boolean> {
+    try {
+      await this.client.query("SELECT 1");
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async listEntries(): Promise<Record<string, MappingEntry>> {
+    const rows = await this.client.query(
+      `SELECT organization_id, ${SQL_MAPPING_COLUMNS} FROM ${this.table} ORDER BY organization_id`
+    );
+    return Object.fromEntries(
+      rows.map(row => [String(row["organization_id"]), MappingEntrySchema.parse(rowToMappingEntry(row))])
+    );
+  }
+
+  async getEntry(organizationId: string): Promise<MappingEntry | undefined> {
+    const row = (await this.selectRow(organizationId))[0];
+    return row ? MappingEntrySchema.parse(rowToMappingEntry(row)) : undefined;
+  }
+
+  /**
+   * Inserts or updates the row in a single statement. Other gateway instances see the change once their cached
+   * lookup expires.
+   */
+  async putEntry(organizationId: string, entry: MappingEntry): Promise<void> {
+    const json = (value: unknown) => (value === undefined ? null : JSON.stringify(value));
+    await this.client.query(
+      `INSERT INTO ${this.table} (organization_id, ${SQL_MAPPING_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (organization_id) DO UPDATE SET partition = excluded.partition, slug = excluded.slug,
+       api_key = excluded.api_key,
+       policy = excluded.policy, allowed_tools = excluded.allowed_tools, denied_tools = excluded.denied_tools,
+       rate_limits = excluded.rate_limits, upstream = excluded.upstream`,
+      [
+        organizationId,
+        entry.partition,
+        entry.slug ?? null,
+        entry.apiKey ?? null,
+        json(entry.policy),
+        json(entry.allowedTools),
+        json(entry.deniedTools),
+        json(entry.rateLimits),
+        json(entry.upstream),
+      ]
+    );
+    this.cache.delete(organizationId);
+    // The entry's previous slug is not known here, so every cached slug lookup is dropped
+    this.slugCache.clear();
+  }
+
+  async deleteEntry(organizationId: string): Promise<boolean> {
+    const rows = await this.client.query(
+      `DELETE FROM ${this.table} WHERE organization_id = ? RETURNING organization_id`,
+      [organizationId]
+    );
+    this.cache.delete(organizationId);
+    this.slugCache.clear();
+    return rows.length > 0;
+  }
+
+  close(): Promise<void> {
+    return this.client.close();
+  }
+
+  private selectRow(organizationId: string): Promise<SqlRow[]> {
+    return this.client.query(`SELECT ${SQL_MAPPING_COLUMNS} FROM ${this.table} WHERE organization_id = ?`, [
+      organizationId,
+    ]);
+  }
+
+  /**
+   * Returns a mapper for the single organization, so that the usual fallback and strictness rules apply to misses.
+   */
+  private async lookup(organizationId: string): Promise<Mapper> {
+    const cached = this.cache.get(organizationId);
+    if (cached) {
+      return cached;
+    }
+
+    const rows = await this.selectRow(organizationId);
+    let mapper: Mapper;
+    try {
+      mapper = this.loader(rows[0] ? { [organizationId]: rowToMappingEntry(rows[0]) } : {});
+    } catch (error) {
+      const message = describeError(error);
+      throw new Error(`Mapping for organization ${organizationId} is invalid: ${message}`);
+    }
+    this.cache.set(organizationId, mapper, this.cacheTtlMs);
+    return mapper;
+  }
+}
+
+function rowToMappingEntry(row: SqlRow): Record<string, unknown> {
+  const json = (value: unknown) => (typeof value === "string" ? JSON.parse(value) : (value ?? undefined));
+  return {
+    partition: row["partition"],
+    slug: row["slug"] ?? undefined,
+    apiKey: row["api_key"] ?? undefined,
+    policy: json(row["policy"]),
+    allowedTools: json(row["allowed_tools"]),
+    deniedTools: json(row["denied_tools"]),
+    rateLimits: json(row["rate_limits"]),
+    upstream: json(row["upstream"]),
+  };
+}
+
+function formatZodError(error: z.ZodError): string {
+  return error.issues.map(e => `${e.path.join(".")}: ${e.message}`).join(", ");
+}
+
+/**
+ * Describes why a mapping could not be loaded. JSON syntax errors quote the offending text, which may contain
+ * API keys, so only their position is kept.
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return formatZodError(error);
+  }
+  if ((error as Error)?.name === "SyntaxError") {
+    return `SyntaxError: Invalid JSON${/ at position \d+/.exec((error as Error).message)?.[0] ?? ""}`;
+  }
+  return String(error);
+}
+
 export function loadMapper(config: Config): Mapper {
+  const logger = createLogger("Mapper", config.logLevel, config.logFormat);
+  const parse = (json: unknown): Mapper =>
+    config.strictMapping ? StrictMapper.parse(config, json) : DefaultMapper.parse(config, json);
+
   try {
-    if (config.strictMapping) {
+    if (config.mappingBackend === "http") {
+      assert(config.mappingUrl, "mappingUrl is required when mappingBackend is http");
+      return new HttpMapper(config.mappingUrl, parse, logger, config.mappingUrlToken);
+    } else if (config.mappingBackend === "sql") {
+      assert(config.mappingDatabaseUrl, "mappingDatabaseUrl is required when mappingBackend is sql");
+      return new SqlMapper(
+        createSqlClient(config.mappingDatabaseUrl),
+        config.mappingTable,
+        parse,
+        config.mappingCacheTtl * 1000
+      );
+    } else if (config.strictMapping) {
       assert(config.mappingFile, "mappingFile is required when strictMapping is true");
-      return StrictMapper.load(config, config.mappingFile);
+      return new ReloadableMapper(config.mappingFile, mappingFile => StrictMapper.load(config, mappingFile), logger);
     } else if (config.mappingFile) {
-      return DefaultMapper.load(config, config.mappingFile);
+      return new ReloadableMapper(config.mappingFile, mappingFile => DefaultMapper.load(config, mappingFile), logger);
     } else {
       return new DefaultMapper(config, {});
     }
   } catch (error) {
     if (error instanceof z.ZodError) {
-      const errorMessages = error.issues.map(e => `${e.path.join(".")}: ${e.message}`).join(", ");
-      throw new Error(`Mapping file validation failed: ${errorMessages}`);
+      throw new Error(`Mapping file validation failed: ${formatZodError(error)}`);
     } else {
       throw error;
     }
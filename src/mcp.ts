@@ -0,0 +1,153 @@
+/**
+ * Helpers for inspecting and rewriting MCP JSON-RPC messages
+ */
+
+import { Transform, TransformCallback } from "stream";
+import { StringDecoder } from "string_decoder";
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * Codes of the JSON-RPC errors that the gateway answers with itself. Besides the standard codes, these use the range
+ * that JSON-RPC reserves for implementation-defined server errors.
+ */
+export const JsonRpcErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  InternalError: -32603,
+  UpstreamUnavailable: -32001,
+  UpstreamTimeout: -32002,
+  ToolNotAllowed: -32003,
+  Unauthorized: -32004,
+  Forbidden: -32005,
+  OrganizationNotFound: -32006,
+  MappingUnavailable: -32007,
+  RateLimited: -32008,
+  ShuttingDown: -32009,
+} as const;
+
+export interface ToolFilter {
+  allowedTools?: string[] | undefined;
+  deniedTools?: string[] | undefined;
+}
+
+function isJsonRpcMessage(value: unknown): value is JsonRpcMessage {
+  return typeof value === "object" && value !== null && (value as JsonRpcMessage).jsonrpc === "2.0";
+}
+
+/**
+ * Returns the JSON-RPC messages in a request or response body, which may be a single message or a batch.
+ * Returns undefined if the body is not JSON-RPC.
+ */
+export function parseJsonRpcMessages(body: unknown): JsonRpcMessage[] | undefined {
+  const messages = Array.isArray(body) ? body : [body];
+  if (messages.length === 0 || !messages.every(isJsonRpcMessage)) {
+    return undefined;
+  }
+  return messages;
+}
+
+export function jsonRpcError(id: JsonRpcId | undefined, code: number, message: string): JsonRpcMessage {
+  return { jsonrpc: "2.0", id: id ?? null, error: { code, message } };
+}
+
+export function isToolAllowed(filter: ToolFilter, name: string): boolean {
+  if (filter.allowedTools && !filter.allowedTools.includes(name)) {
+    return false;
+  }
+  return !filter.deniedTools?.includes(name);
+}
+
+/**
+ * Returns the name of the tool invoked by a tools/call request, or undefined for any other message.
+ */
+export function getToolCallName(message: JsonRpcMessage): string | undefined {
+  if (message.method !== "tools/call") {
+    return undefined;
+  }
+  const name = (message.params as { name?: unknown } | undefined)?.name;
+  return typeof name === "string" ? name : "";
+}
+
+/**
+ * Removes tools hidden by the filter from a tools/list result.
+ */
+export function filterToolsListResult(message: JsonRpcMessage, filter: ToolFilter): JsonRpcMessage {
+  const result = message.result as { tools?: unknown } | undefined;
+  if (!result || !Array.isArray(result.tools)) {
+    return message;
+  }
+  const tools = result.tools.filter(
+    (tool: { name?: unknown }) => typeof tool.name === "string" && isToolAllowed(filter, tool.name)
+  );
+  return { ...message, result: { ...result, tools } };
+}
+
+/**
+ * Rewrites the JSON-RPC messages carried in the data fields of a server-sent event stream.
+ * Events that do not carry JSON are passed through unchanged.
+ */
+export class SseMessageTransform extends Transform {
+  private buffer: string;
+  private rewrite: (message: unknown) => unknown;
+  // Keeps the bytes of a character that is split across chunks until the rest of it arrives
+  private decoder: StringDecoder;
+
+  constructor(rewrite: (message: unknown) => unknown) {
+    super();
+    this.buffer = "";
+    this.rewrite = rewrite;
+    this.decoder = new StringDecoder("utf-8");
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.buffer += this.decoder.write(chunk);
+    const events = this.buffer.split(/\r?\n\r?\n/);
+    this.buffer = events.pop() ?? "";
+    for (const event of events) {
+      this.push(this.rewriteEvent(event) + "\n\n");
+    }
+    callback();
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.buffer += this.decoder.end();
+    if (this.buffer) {
+      this.push(this.buffer);
+    }
+    callback();
+  }
+
+  private rewriteEvent(event: string): string {
+    const lines = event.split(/\r?\n/);
+    const dataLines = lines.filter(line => line.startsWith("data:"));
+    if (dataLines.length === 0) {
+      return event;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(dataLines.map(line => line.replace(/^data: ?/, "")).join("\n"));
+    } catch {
+      return event;
+    }
+
+    const otherLines = lines.filter(line => !line.startsWith("data:"));
+    return [...otherLines, `data: ${JSON.stringify(this.rewrite(message))}`].join("\n");
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Caching of WorkOS organization membership lookups
+ */
+
+import { LruCache } from "./cache.js";
+
+export interface CachedMembership {
+  isMember: boolean;
+  role: string | undefined;
+  // Undefined when the permissions granted by the role are not known yet
+  permissions: string[] | undefined;
+}
+
+export interface MembershipCache {
+  get(userId: string, organizationId: string): Promise<CachedMembership | undefined>;
+  set(userId: string, organizationId: string, membership: CachedMembership, ttlMs: number): Promise<void>;
+  delete(userId: string, organizationId: string): Promise<void>;
+}
+
+function cacheKey(userId: string, organizationId: string): string {
+  return `${userId}:${organizationId}`;
+}
+
+export class InMemoryMembershipCache implements MembershipCache {
+  private cache: LruCache<CachedMembership>;
+
+  constructor(maxSize: number) {
+    this.cache = new LruCache(maxSize);
+  }
+
+  async get(userId: string, organizationId: string): Promise<CachedMembership | undefined> {
+    return this.cache.get(cacheKey(userId, organizationId));
+  }
+
+  async set(userId: string, organizationId: string, membership: CachedMembership, ttlMs: number): Promise<void> {
+    this.cache.set(cacheKey(userId, organizationId), membership, ttlMs);
+  }
+
+  async delete(userId: string, organizationId: string): Promise<void> {
+    this.cache.delete(cacheKey(userId, organizationId));
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Prometheus metrics for the Ragie MCP Gateway
+ */
+
+import { Counter, Gauge, Histogram, Registry } from "prom-client";
+import type { CircuitState } from "./circuit-breaker.js";
+
+export type AuthFailureReason =
+  | "missing_token"
+  | "invalid_token"
+  | "not_member"
+  | "unmapped_organization"
+  | "policy_denied";
+
+export class Metrics {
+  readonly registry: Registry;
+  private requests: Counter<"organization" | "route" | "method" | "status">;
+  private requestDuration: Histogram<"organization" | "route" | "method" | "status">;
+  private authFailures: Counter<"reason">;
+  private workosDuration: Histogram<"operation" | "outcome">;
+  private workosErrors: Counter<"operation">;
+  private jwksFetches: Counter<"outcome">;
+  private tokenVerifications: Counter<"cache">;
+  private upstreamDuration: Histogram<"organization" | "status">;
+  private upstreamErrors: Counter<"organization" | "code">;
+  private upstreamRetries: Counter<"organization">;
+  private circuitBreakerState: Gauge<"upstream">;
+  private circuitBreakerTransitions: Counter<"upstream" | "state">;
+  private auditDeliveryFailures: Counter;
+
+  constructor() {
+    this.registry = new Registry();
+    const registers = [this.registry];
+
+    this.requests = new Counter({
+      name: "mcp_gateway_requests_total",
+      help: "Requests handled by the gateway",
+      labelNames: ["organization", "route", "method", "status"],
+      registers,
+    });
+    this.requestDuration = new Histogram({
+      name: "mcp_gateway_request_duration_seconds",
+      help: "Time to handle requests, from receipt to the end of the response",
+      labelNames: ["organization", "route", "method", "status"],
+      registers,
+    });
+    this.authFailures = new Counter({
+      name: "mcp_gateway_auth_failures_total",
+      help: "Requests rejected during authentication or authorization",
+      labelNames: ["reason"],
+      registers,
+    });
+    this.workosDuration = new Histogram({
+      name: "mcp_gateway_workos_request_duration_seconds",
+      help: "Latency of WorkOS API calls",
+      labelNames: ["operation", "outcome"],
+      registers,
+    });
+    this.workosErrors = new Counter({
+      name: "mcp_gateway_workos_errors_total",
+      help: "WorkOS API calls that failed",
+      labelNames: ["operation"],
+      registers,
+    });
+    this.jwksFetches = new Counter({
+      name: "mcp_gateway_jwks_fetches_total",
+      help: "Fetches of the WorkOS JSON Web Key Set",
+      labelNames: ["outcome"],
+      registers,
+    });
+    this.tokenVerifications = new Counter({
+      name: "mcp_gateway_token_verifications_total",
+      help: "Bearer token verifications by whether the claims were taken from the token cache",
+      labelNames: ["cache"],
+      registers,
+    });
+    this.upstreamDuration = new Histogram({
+      name: "mcp_gateway_upstream_response_duration_seconds",
+      help: "Time until the Ragie MCP server responded with headers",
+      labelNames: ["organization", "status"],
+      registers,
+    });
+    this.upstreamErrors = new Counter({
+      name: "mcp_gateway_upstream_errors_total",
+      help: "Proxied requests that failed or received a server error from the Ragie MCP server",
+      labelNames: ["organization", "code"],
+      registers,
+    });
+    this.upstreamRetries = new Counter({
+      name: "mcp_gateway_upstream_retries_total",
+      help: "Proxied requests that were retried after a connection error",
+      labelNames: ["organization"],
+      registers,
+    });
+    this.circuitBreakerState = new Gauge({
+      name: "mcp_gateway_circuit_breaker_state",
+      help: "State of the circuit breaker of each upstream: 0 closed, 1 half-open, 2 open",
+      labelNames: ["upstream"],
+      registers,
+    });
+    this.circuitBreakerTransitions = new Counter({
+      name: "mcp_gateway_circuit_breaker_transitions_total",
+      help: "Circuit breaker state changes by upstream and new state",
+      labelNames: ["upstream", "state"],
+      registers,
+    });
+    this.auditDeliveryFailures = new Counter({
+      name: "mcp_gateway_audit_delivery_failures_total",
+      help: "Audit events that could not be delivered to the audit sink",
+      registers,
+    });
+  }
+
+  observeRequest(organization: string, route: string, method: string, status: number, seconds: number): void {
+    const labels = { organization, route, method, status: String(status) };
+    this.requests.inc(labels);
+    this.requestDuration.observe(labels, seconds);
+  }
+
+  authFailure(reason: AuthFailureReason): void {
+    this.authFailures.inc({ reason });
+  }
+
+  observeWorkOS(operation: string, succeeded: boolean, seconds: number): void {
+    this.workosDuration.observe({ operation, outcome: succeeded ? "success" : "error" }, seconds);
+    if (!succeeded) {
+      this.workosErrors.inc({ operation });
+    }
+  }
+
+  jwksFetch(succeeded: boolean): void {
+    this.jwksFetches.inc({ outcome: succeeded ? "success" : "error" });
+  }
+
+  tokenVerification(cached: boolean): void {
+    this.tokenVerifications.inc({ cache: cached ? "hit" : "miss" });
+  }
+
+  observeUpstream(organization: string, status: number, seconds: number): void {
+    this.upstreamDuration.observe({ organization, status: String(status) }, seconds);
+    if (status >= 500) {
+      this.upstreamErrors.inc({ organization, code: String(status) });
+    }
+  }
+
+  upstreamError(organization: string, code: string): void {
+    this.upstreamErrors.inc({ organization, code });
+  }
+
+  upstreamRetry(organization: string): void {
+    this.upstreamRetries.inc({ organization });
+  }
+
+  circuitBreakerStateChange(upstream: string, state: CircuitState): void {
+    this.circuitBreakerState.set({ upstream }, { closed: 0, half_open: 1, open: 2 }[state]);
+    this.circuitBreakerTransitions.inc({ upstream, state });
+  }
+
+  auditDeliveryFailure(): void {
+    this.auditDeliveryFailures.inc();
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * OAuth authorization server metadata (RFC 8414)
+ * The gateway serves the WorkOS authorization server metadata to MCP clients. Documents are validated, merged with
+ * the configured overrides and cached according to the upstream's Cache-Control header. While WorkOS is unavailable
+ * the last good document keeps being served.
+ */
+
+import type winston from "winston";
+import z from "zod";
+import { describeError } from "./mapping.js";
+
+// How long a failed refresh keeps serving the stale document before WorkOS is asked again
+const RETRY_AFTER_ERROR_MS = 30_000;
+
+const urlSchema = z.url({ protocol: /^https?$/ });
+
+export const AuthorizationServerMetadataSchema = z
+  .looseObject({
+    issuer: urlSchema,
+    authorization_endpoint: urlSchema.optional(),
+    token_endpoint: urlSchema.optional(),
+    jwks_uri: urlSchema.optional(),
+    registration_endpoint: urlSchema.optional(),
+    revocation_endpoint: urlSchema.optional(),
+    introspection_endpoint: urlSchema.optional(),
+    scopes_supported: z.array(z.string()).optional(),
+    response_types_supported: z.array(z.string()),
+    response_modes_supported: z.array(z.string()).optional(),
+    grant_types_supported: z.array(z.string()).optional(),
+    token_endpoint_auth_methods_supported: z.array(z.string()).optional(),
+    code_challenge_methods_supported: z.array(z.string()).optional(),
+  })
+  // Grant types default to authorization_code and implicit, which both use the authorization endpoint
+  .refine(
+    metadata =>
+      metadata.authorization_endpoint !== undefined ||
+      !(metadata.grant_types_supported ?? ["authorization_code", "implicit"]).some(
+        grantType => grantType === "authorization_code" || grantType === "implicit"
+      ),
+    { message: "authorization_endpoint is required by the supported grant types", path: ["authorization_endpoint"] }
+  )
+  .refine(
+    metadata =>
+      metadata.token_endpoint !== undefined ||
+      (metadata.grant_types_supported ?? ["authorization_code"]).every(grantType => grantType === "implicit"),
+    { message: "token_endpoint is required by the supported grant types", path: ["token_endpoint"] }
+  );
+
+export type AuthorizationServerMetadata = z.infer<typeof AuthorizationServerMetadataSchema>;
+
+export const MetadataOverridesSchema = z.record(z.string(), z.unknown());
+
+export type MetadataOverrides = z.infer<typeof MetadataOverridesSchema>;
+
+export interface MetadataDocument {
+  metadata: AuthorizationServerMetadata;
+  // Seconds that the document may still be cached by clients, 0 when it is stale
+  maxAge: number;
+}
+
+export interface AuthorizationServerMetadataCacheOptions {
+  url: string;
+  issuer: string;
+  timeoutMs: number;
+  // Used when the upstream response does not say how long it may be cached
+  defaultTtlMs: number;
+  overrides: MetadataOverrides;
+  logger: winston.Logger;
+}
+
+/**
+ * Returns how long a response may be kept by a shared cache according to its Cache-Control header, or undefined
+ * when the header does not say.
+ */
+export function cacheTtlMs(cacheControl: string | null): number | undefined {
+  const directives = new Map(
+    (cacheControl ?? "")
+      .split(",")
+      .map(directive => directive.trim().toLowerCase().split("="))
+      .map(([name, value]) => [name ?? "", value?.replace(/"/g, "")])
+  );
+  if (directives.has("no-store") || directives.has("no-cache")) {
+    return 0;
+  }
+  const maxAge = Number(directives.get("s-maxage") ?? directives.get("max-age"));
+  return Number.isFinite(maxAge) && maxAge >= 0 ? maxAge * 1000 : undefined;
+}
+
+/**
+ * Merges overrides into a metadata document. A null override removes the field.
+ */
+export function applyMetadataOverrides(metadata: Record<string, unknown>, overrides: MetadataOverrides) {
+  const merged = { ...metadata, ...overrides };
+  for (const [field, value] of Object.entries(overrides)) {
+    if (value === null) {
+      delete merged[field];
+    }
+  }
+  return merged;
+}
+
+export class AuthorizationServerMetadataCache {
+  private url: string;
+  private issuer: string;
+  private timeoutMs: number;
+  private defaultTtlMs: number;
+  private overrides: MetadataOverrides;
+  private logger: winston.Logger;
+  private metadata: AuthorizationServerMetadata | null;
+  private expiresAt: number;
+  private refreshAt: number;
+  private pending: Promise<void> | null;
+
+  constructor(options: AuthorizationServerMetadataCacheOptions) {
+    this.url = options.url;
+    this.issuer = options.issuer;
+    this.timeoutMs = options.timeoutMs;
+    this.defaultTtlMs = options.defaultTtlMs;
+    this.overrides = options.overrides;
+    this.logger = options.logger;
+    this.metadata = null;
+    this.expiresAt = 0;
+    this.refreshAt = 0;
+    this.pending = null;
+  }
+
+  /**
+   * Returns the metadata, fetching it when the cached document has expired. Throws only when no document has
+   * been fetched successfully yet.
+   */
+  async get(): Promise<MetadataDocument> {
+    if (Date.now() >= this.refreshAt) {
+      // Concurrent requests share a single fetch
+      this.pending ??= this.refresh().finally(() => {
+        this.pending = null;
+      });
+      await this.pending;
+    }
+    if (!this.metadata) {
+      throw new Error(`Authorization server metadata could not be fetched from ${this.url}`);
+    }
+    return { metadata: this.metadata, maxAge: Math.max(0, Math.ceil((this.expiresAt - Date.now()) / 1000)) };
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        headers: { Accept: "application/json" },
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Authorization server responded with status ${response.status}`);
+      }
+      const body: unknown = await response.json();
+      if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        throw new Error("Authorization server metadata is not a JSON object");
+      }
+      const metadata = AuthorizationServerMetadataSchema.parse(
+        applyMetadataOverrides(body as Record<string, unknown>, this.overrides)
+      );
+      // RFC 8414 section 3.3: the issuer has to be the authorization server the metadata was requested from
+      if (metadata.issuer.replace(/\/+$/, "") !== this.issuer.replace(/\/+$/, "")) {
+        throw new Error(`Issuer ${metadata.issuer} does not match ${this.issuer}`);
+      }
+
+      const ttlMs = cacheTtlMs(response.headers.get("cache-control")) ?? this.defaultTtlMs;
+      this.metadata = metadata;
+      this.expiresAt = Date.now() + ttlMs;
+      this.refreshAt = this.expiresAt;
+    } catch (error) {
+      if (!this.metadata) {
+        this.logger.error(`Could not fetch authorization server metadata from ${this.url}: ${describeError(error)}`);
+        return;
+      }
+      this.logger.warn(
+        `Could not refresh authorization server metadata from ${this.url}, serving stale metadata: ` +
+          describeError(error)
+      );
+      this.refreshAt = Date.now() + RETRY_AFTER_ERROR_MS;
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Per-organization access policies
+ */
+
+import z from "zod";
+
+export const AccessPolicySchema = z.object({
+  allowedRoles: z.array(z.string()).optional(),
+  requiredPermissions: z.array(z.string()).optional(),
+  allowedUserIds: z.array(z.string()).optional(),
+  allowedEmailDomains: z.array(z.string()).optional(),
+});
+
+export type AccessPolicy = z.infer<typeof AccessPolicySchema>;
+
+export interface AccessSubject {
+  userId: string;
+  role: string | undefined;
+  permissions: string[];
+  email: string | undefined;
+}
+
+function emailDomain(email: string): string {
+  return email.slice(email.lastIndexOf("@") + 1).toLowerCase();
+}
+
+/**
+ * Evaluates a policy against a subject, returning the reason access is denied or undefined if it is allowed.
+ * When both allowedUserIds and allowedEmailDomains are set, matching either one is sufficient.
+ */
+export function evaluatePolicy(policy: AccessPolicy, subject: AccessSubject): string | undefined {
+  if (policy.allowedRoles && !(subject.role && policy.allowedRoles.includes(subject.role))) {
+    return `Role ${subject.role ?? "(none)"} is not allowed to access this organization.`;
+  }
+
+  const missingPermissions = (policy.requiredPermissions ?? []).filter(p => !subject.permissions.includes(p));
+  if (missingPermissions.length > 0) {
+    return `Missing required permissions: ${missingPermissions.join(", ")}.`;
+  }
+
+  if (policy.allowedUserIds || policy.allowedEmailDomains) {
+    const email = subject.email;
+    const userAllowed = policy.allowedUserIds?.includes(subject.userId) ?? false;
+    const domainAllowed =
+      email !== undefined &&
+      (policy.allowedEmailDomains?.some(domain => domain.toLowerCase() === emailDomain(email)) ?? false);
+    if (!userAllowed && !domainAllowed) {
+      return "User is not allowed to access this organization.";
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,146 @@
+/**
+ * Token bucket rate limiting with pluggable storage
+ */
+
+import { Redis } from "ioredis";
+import z from "zod";
+import { LruCache } from "./cache.js";
+
+// Rate limiting is skipped when Redis fails, so a slow server should not hold up requests for long either
+const REDIS_COMMAND_TIMEOUT_MS = 500;
+
+export const RateLimitSchema = z.object({
+  // Sustained rate at which the bucket refills; 0 disables the limit
+  requestsPerMinute: z.number().min(0),
+  // Bucket capacity, i.e. how many requests can be made in a burst; defaults to requestsPerMinute
+  burst: z.number().int().min(1).optional(),
+});
+
+export type RateLimit = z.infer<typeof RateLimitSchema>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the bucket is full again
+  resetMs: number;
+  // Milliseconds until the next request would be allowed; 0 when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  consume(key: string, limit: RateLimit): Promise<RateLimitResult>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+function capacityOf(limit: RateLimit): number {
+  return limit.burst ?? Math.max(1, Math.ceil(limit.requestsPerMinute));
+}
+
+function refillRatePerMs(limit: RateLimit): number {
+  return limit.requestsPerMinute / 60_000;
+}
+
+function toResult(allowed: boolean, tokens: number, limit: RateLimit): RateLimitResult {
+  const capacity = capacityOf(limit);
+  const rate = refillRatePerMs(limit);
+  return {
+    allowed,
+    limit: capacity,
+    remaining: Math.floor(tokens),
+    resetMs: Math.ceil((capacity - tokens) / rate),
+    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+  };
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets: LruCache<Bucket>;
+
+  constructor(maxSize: number = 100_000) {
+    this.buckets = new LruCache(maxSize);
+  }
+
+  async consume(key: string, limit: RateLimit): Promise<RateLimitResult> {
+    const now = Date.now();
+    const capacity = capacityOf(limit);
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+
+    let tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillRatePerMs(limit));
+    const allowed = tokens >= 1;
+    if (allowed) {
+      tokens -= 1;
+    }
+
+    const result = toResult(allowed, tokens, limit);
+    // A bucket that has refilled completely is the same as no bucket, so it can be dropped then
+    this.buckets.set(key, { tokens, updatedAt: now }, Math.max(result.resetMs, 1));
+    return result;
+  }
+}
+
+/**
+ * The subset of a Redis client used by RedisRateLimitStore. ioredis clients satisfy it directly.
+ */
+export interface RedisClient {
+  eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
+
+// Refills and consumes from the bucket atomically, returning { allowed, tokens }
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(bucket[1]) or capacity
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", tostring(now))
+redis.call("PEXPIRE", KEYS[1], math.max(1, math.ceil((capacity - tokens) / rate)))
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * Connects to the Redis server that rate limits are stored in. Commands fail right away while the connection is down
+ * instead of waiting in a queue for it to come back, and time out if the server does not answer.
+ */
+export function createRedisClient(url: string): Redis {
+  return new Redis(url, {
+    enableOfflineQueue: false,
+    maxRetriesPerRequest: 0,
+    commandTimeout: REDIS_COMMAND_TIMEOUT_MS,
+  });
+}
+
+/**
+ * Stores buckets in Redis so that limits are shared between gateway instances.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  private client: RedisClient;
+  private keyPrefix: string;
+
+  constructor(client: RedisClient, keyPrefix: string = "mcp-gateway:rate-limit:") {
+    this.client = client;
+    this.keyPrefix = keyPrefix;
+  }
+
+  async consume(key: string, limit: RateLimit): Promise<RateLimitResult> {
+    const [allowed, tokens] = (await this.client.eval(
+      TOKEN_BUCKET_SCRIPT,
+      1,
+      this.keyPrefix + key,
+      capacityOf(limit),
+      refillRatePerMs(limit),
+      Date.now()
+    )) as [number, string];
+    return toResult(allowed === 1, Number(tokens), limit);
+  }
+}
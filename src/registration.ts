@@ -0,0 +1,172 @@
+/**
+ * OAuth Dynamic Client Registration (RFC 7591) for MCP clients
+ * Clients register at the gateway, which checks their redirect URIs against an allowlist and records the
+ * registration in the audit log. Registrations are then either forwarded to the WorkOS registration endpoint or
+ * answered with a preconfigured public client, or with a client issued by the gateway's own authorization server.
+ */
+
+import express, { Request, Response, Router } from "express";
+import type winston from "winston";
+import z from "zod";
+import { describeError } from "./mapping.js";
+
+const REGISTRATION_TIMEOUT_MS = 10_000;
+
+export type ClientRegistrationMode = "forward" | "static";
+
+const ClientMetadataSchema = z.looseObject({
+  redirect_uris: z.array(z.string()).min(1),
+  client_name: z.string().optional(),
+  client_uri: z.string().optional(),
+  grant_types: z.array(z.string()).optional(),
+  response_types: z.array(z.string()).optional(),
+  token_endpoint_auth_method: z.string().optional(),
+  scope: z.string().optional(),
+});
+
+type ClientMetadata = z.infer<typeof ClientMetadataSchema>;
+
+export interface ClientRegistrationOptions {
+  mode: ClientRegistrationMode;
+  // WorkOS registration endpoint that registrations are forwarded to
+  upstreamUrl: string;
+  // Client handed out to every registration in static mode
+  clientId: string;
+  // Issues a client ID bound to the redirect URIs in static mode when the gateway is the authorization server
+  issueClientId: ((redirectUris: string[]) => Promise<string>) | undefined;
+  redirectUriPatterns: string[];
+  logger: winston.Logger;
+  auditLogger: winston.Logger;
+}
+
+/**
+ * Returns whether a redirect URI matches one of the allowed patterns. A * in a pattern matches any characters
+ * within a single URL component, such as the port of a loopback redirect URI. Redirect URIs with a fragment or
+ * user info are never allowed.
+ */
+export function isRedirectUriAllowed(patterns: string[], redirectUri: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(redirectUri);
+  } catch {
+    return false;
+  }
+  if (url.hash || url.username || url.password) {
+    return false;
+  }
+  return patterns.some(pattern => {
+    const source = pattern
+      .split("*")
+      .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("[^/?#@]*");
+    return new RegExp(`^${source}$`).test(redirectUri);
+  });
+}
+
+/**
+ * Returns whether a redirect URI pattern names the host that authorization codes are sent to, so that a * in it
+ * can at most stand for the port.
+ */
+export function hasFixedHost(pattern: string): boolean {
+  const authority = pattern.match(/^[a-z][a-z0-9+.-]*:\/\/([^/?#]*)/i)?.[1];
+  if (authority === undefined) {
+    return !pattern.includes("*");
+  }
+  return !authority.replace(/:\*$/, "").includes("*");
+}
+
+export class ClientRegistrationHandler {
+  readonly router: Router;
+  private mode: ClientRegistrationMode;
+  private upstreamUrl: string;
+  private clientId: string;
+  private issueClientId: ((redirectUris: string[]) => Promise<string>) | undefined;
+  private redirectUriPatterns: string[];
+  private logger: winston.Logger;
+  private auditLogger: winston.Logger;
+
+  constructor(options: ClientRegistrationOptions) {
+    this.mode = options.mode;
+    this.upstreamUrl = options.upstreamUrl;
+    this.clientId = options.clientId;
+    this.issueClientId = options.issueClientId;
+    this.redirectUriPatterns = options.redirectUriPatterns;
+    this.logger = options.logger;
+    this.auditLogger = options.auditLogger;
+
+    this.router = express.Router();
+    this.router.post("/", express.json({ limit: "64kb" }), this.registrationHandler.bind(this));
+  }
+
+  async registrationHandler(req: Request, res: Response) {
+    const parsed = ClientMetadataSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: "invalid_client_metadata",
+        error_description: parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+      });
+      return;
+    }
+    const metadata = parsed.data;
+    const rejected = metadata.redirect_uris.filter(uri => !isRedirectUriAllowed(this.redirectUriPatterns, uri));
+    if (rejected.length > 0) {
+      this.logger.warn(`Rejected client registration with redirect URIs ${rejected.join(", ")}`);
+      res.status(400).json({
+        error: "invalid_redirect_uri",
+        error_description: `Redirect URI ${rejected[0]} is not allowed.`,
+      });
+      return;
+    }
+
+    if (this.mode === "static") {
+      const clientId = this.issueClientId ? await this.issueClientId(metadata.redirect_uris) : this.clientId;
+      this.recordRegistration(clientId, metadata);
+      res.status(201).json({
+        ...metadata,
+        client_id: clientId,
+        client_id_issued_at: Math.floor(Date.now() / 1000),
+        grant_types: ["authorization_code", "refresh_token"],
+        response_types: ["code"],
+        token_endpoint_auth_method: "none",
+      });
+      return;
+    }
+
+    let response: globalThis.Response;
+    let body: unknown;
+    try {
+      response = await fetch(this.upstreamUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify(metadata),
+        signal: AbortSignal.timeout(REGISTRATION_TIMEOUT_MS),
+      });
+      body = await response.json();
+    } catch (error) {
+      this.logger.error(`Could not forward client registration to ${this.upstreamUrl}: ${describeError(error)}`);
+      res.status(502).json({ error: "server_error", error_description: "Client registration is unavailable." });
+      return;
+    }
+
+    const clientId = (body as { client_id?: unknown } | null)?.client_id;
+    if (response.ok && typeof clientId === "string") {
+      this.recordRegistration(clientId, metadata);
+    } else {
+      this.logger.warn(`Client registration was rejected by ${this.upstreamUrl} with status ${response.status}`);
+    }
+    res.status(response.status).json(body);
+  }
+
+  private recordRegistration(clientId: string, metadata: ClientMetadata): void {
+    this.logger.info(`Registered client ${clientId} (${metadata.client_name ?? "unnamed"})`);
+    this.auditLogger.info("Client registration", {
+      clientId,
+      clientName: metadata.client_name,
+      clientUri: metadata.client_uri,
+      redirectUris: metadata.redirect_uris,
+      grantTypes: metadata.grant_types,
+      scope: metadata.scope,
+      mode: this.mode,
+    });
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Secret references and encrypted values for API keys in the mapping
+ * A value is either a plaintext key, env:VAR_NAME, file:/path/to/secret, or an AES-256-GCM envelope
+ * produced by encryptSecret. Error messages name the reference but never include secret values.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { readFileSync } from "fs";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Decodes a base64 master key, which must be 32 bytes long for AES-256.
+ */
+export function parseMasterKey(masterKey: string): Buffer {
+  const key = Buffer.from(masterKey, "base64");
+  if (key.length !== 32) {
+    throw new Error("Master key must be 32 bytes encoded as base64");
+  }
+  return key;
+}
+
+/**
+ * Encrypts a secret into an envelope of the form enc:v1:<base64 of IV, authentication tag and ciphertext>.
+ */
+export function encryptSecret(plaintext: string, masterKey: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv("aes-256-gcm", parseMasterKey(masterKey), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  return ENCRYPTED_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function decryptSecret(envelope: string, masterKey: string | undefined): string {
+  if (!masterKey) {
+    throw new Error("Encrypted value requires a master key");
+  }
+  const data = Buffer.from(envelope.slice(ENCRYPTED_PREFIX.length), "base64");
+  if (data.length <= IV_LENGTH + TAG_LENGTH) {
+    throw new Error("Encrypted value is malformed");
+  }
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", parseMasterKey(masterKey), data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString("utf-8");
+  } catch {
+    throw new Error("Encrypted value could not be decrypted with the master key");
+  }
+}
+
+/**
+ * Returns whether a value refers to a secret instead of containing it, so that it can be shown safely.
+ */
+export function isSecretReference(value: string): boolean {
+  return value.startsWith("env:") || value.startsWith("file:") || value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Returns whether a value is read from the gateway host, i.e. an environment variable or a file. Whoever writes such
+ * a reference chooses which of the host's secrets is sent to the upstream as the API key.
+ */
+export function isHostSecretReference(value: string): boolean {
+  return value.startsWith("env:") || value.startsWith("file:");
+}
+
+/**
+ * Resolves a secret reference to its value. Plaintext values are returned unchanged.
+ */
+export function resolveSecret(value: string, masterKey: string | undefined): string {
+  let resolved: string;
+  if (value.startsWith("env:")) {
+    const name = value.slice("env:".length);
+    const env = process.env[name];
+    if (env === undefined) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    resolved = env;
+  } else if (value.startsWith("file:")) {
+    const path = value.slice("file:".length);
+    try {
+      resolved = readFileSync(path, "utf-8").trim();
+    } catch (error) {
+      throw new Error(`Secret file ${path} could not be read (${(error as NodeJS.ErrnoException).code})`);
+    }
+  } else if (value.startsWith(ENCRYPTED_PREFIX)) {
+    resolved = decryptSecret(value, masterKey);
+  } else {
+    resolved = value;
+  }
+
+  if (!resolved) {
+    throw new Error("Secret resolves to an empty value");
+  }
+  return resolved;
+}
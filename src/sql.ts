@@ -0,0 +1,75 @@
+/**
+ * Minimal SQL clients for SQLite and Postgres-compatible databases
+ * Queries are written with ? placeholders, which are translated for Postgres.
+ */
+
+import Database from "better-sqlite3";
+import pg from "pg";
+
+export type SqlRow = Record<string, unknown>;
+
+export interface SqlClient {
+  query(sql: string, params?: unknown[]): Promise<SqlRow[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * Rewrites ? placeholders to the numbered $1, $2, ... placeholders used by Postgres.
+ */
+export function toPostgresPlaceholders(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+export class SqliteClient implements SqlClient {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+  }
+
+  async query(sql: string, params: unknown[] = []): Promise<SqlRow[]> {
+    const statement = this.db.prepare(sql);
+    if (statement.reader) {
+      return statement.all(...params) as SqlRow[];
+    }
+    statement.run(...params);
+    return [];
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export class PostgresClient implements SqlClient {
+  private pool: pg.Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+  }
+
+  async query(sql: string, params: unknown[] = []): Promise<SqlRow[]> {
+    const result = await this.pool.query(toPostgresPlaceholders(sql), params);
+    return result.rows;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Creates a client from a database URL: postgres:// or postgresql:// for Postgres, and sqlite:<path> for SQLite,
+ * e.g. sqlite:mapping.db, sqlite:///var/lib/gateway/mapping.db or sqlite::memory:.
+ */
+export function createSqlClient(databaseUrl: string): SqlClient {
+  if (/^postgres(ql)?:\/\//.test(databaseUrl)) {
+    return new PostgresClient(databaseUrl);
+  }
+  if (databaseUrl.startsWith("sqlite:")) {
+    return new SqliteClient(databaseUrl.slice("sqlite:".length).replace(/^\/\//, ""));
+  }
+  // The URL may contain credentials, so only the scheme is reported
+  throw new Error(`Unsupported database URL scheme: ${databaseUrl.split(":")[0]}`);
+}
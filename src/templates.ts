@@ -0,0 +1,42 @@
+/**
+ * HTML templates served by the gateway
+ * Templates live in src/templates and use {{name}} placeholders, which are HTML-escaped, and {{{name}}}
+ * placeholders for fragments that were rendered from other templates.
+ */
+
+import { readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+const _filename = fileURLToPath(import.meta.url);
+const _dirname = dirname(_filename);
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, character => HTML_ESCAPES[character] ?? character);
+}
+
+export function loadTemplate(name: string): string {
+  return readFileSync(join(_dirname, "templates", name), "utf-8");
+}
+
+/**
+ * Fills in the placeholders of a template. Throws when the template uses a value that was not given, so that
+ * mistakes do not render as empty strings.
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{(\{?)\s*(\w+)\s*\}?\}\}/g, (_placeholder, raw: string, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      throw new Error(`Template value ${name} is missing`);
+    }
+    return raw ? value : escapeHtml(value);
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * WorkOS webhooks for provisioning organization mappings
+ * Organizations created in WorkOS get a mapping entry with a partition derived from a template, and membership
+ * changes invalidate what the gateway has cached about the user's membership so that they take effect immediately.
+ */
+
+import type { Event, Organization, WorkOS } from "@workos-inc/node";
+import express, { Request, Response, Router } from "express";
+import type winston from "winston";
+import { mappingChangeEvent } from "./admin.js";
+import { describeError, MapperConfig, MappingEntry, MappingStore, validateMappingEntry } from "./mapping.js";
+
+const WEBHOOK_ACTOR = "workos-webhook";
+
+export interface WebhookHandlerOptions {
+  workos: WorkOS;
+  secret: string;
+  partitionTemplate: string;
+  mapperConfig: MapperConfig;
+  store: MappingStore | undefined;
+  // Forgets everything cached about a user's membership in an organization
+  invalidateMembership: (userId: string, organizationId: string) => Promise<void>;
+  logger: winston.Logger;
+  auditLogger: winston.Logger;
+}
+
+/**
+ * Renders a partition name for an organization. {id} is replaced with the lowercased organization ID and {slug}
+ * with the organization name reduced to lowercase letters, digits and dashes.
+ */
+export function renderPartitionTemplate(template: string, organization: Pick<Organization, "id" | "name">): string {
+  const slug = organization.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return template.replace(/\{(id|slug)\}/g, (_match, name: string) =>
+    name === "id" ? organization.id.toLowerCase() : slug
+  );
+}
+
+export class WebhookHandler {
+  readonly router: Router;
+  private workos: WorkOS;
+  private secret: string;
+  private partitionTemplate: string;
+  private mapperConfig: MapperConfig;
+  private store: MappingStore | undefined;
+  private invalidateMembership: (userId: string, organizationId: string) => Promise<void>;
+  private logger: winston.Logger;
+  private auditLogger: winston.Logger;
+
+  constructor(options: WebhookHandlerOptions) {
+    this.workos = options.workos;
+    this.secret = options.secret;
+    this.partitionTemplate = options.partitionTemplate;
+    this.mapperConfig = options.mapperConfig;
+    this.store = options.store;
+    this.invalidateMembership = options.invalidateMembership;
+    this.logger = options.logger;
+    this.auditLogger = options.auditLogger;
+
+    this.router = express.Router();
+    this.router.post("/", express.json({ limit: "1mb" }), this.webhookHandler.bind(this));
+  }
+
+  async webhookHandler(req: Request, res: Response) {
+    const sigHeader = req.headers["workos-signature"];
+    if (typeof sigHeader !== "string") {
+      res.status(400).json({ error: "Missing webhook signature." });
+      return;
+    }
+
+    // The SDK does not deserialize event types it does not know, and returns undefined for them
+    let event: Event | undefined;
+    try {
+      event = await this.workos.webhooks.constructEvent({ payload: req.body, sigHeader, secret: this.secret });
+    } catch (error) {
+      this.logger.warn(`Rejected WorkOS webhook: ${String(error)}`);
+      res.status(400).json({ error: "Invalid webhook signature." });
+      return;
+    }
+    this.logger.debug(`Received WorkOS webhook ${req.body?.event} (${req.body?.id})`);
+
+    switch (event?.event) {
+      case "organization.created":
+        await this.provisionOrganization(event.data);
+        break;
+      case "organization.deleted":
+        await this.deprovisionOrganization(event.data.id);
+        break;
+      case "organization_membership.created":
+      case "organization_membership.updated":
+      case "organization_membership.deleted":
+      case "organization_membership.added":
+      case "organization_membership.removed":
+        await this.invalidateMembership(event.data.userId, event.data.organizationId);
+        this.logger.info(
+          `Invalidated cached membership of user ${event.data.userId} in organization ${event.data.organizationId}`
+        );
+        break;
+    }
+    // Unhandled events are acknowledged too, so that WorkOS does not retry them
+    res.json({ received: true });
+  }
+
+  /**
+   * Adds a mapping entry for a new organization. Existing entries are left alone, so that redelivered events and
+   * organizations that were mapped by hand are not overwritten.
+   */
+  private async provisionOrganization(organization: Organization): Promise<void> {
+    const store = this.getStore(organization.id);
+    if (!store || (await store.getEntry(organization.id))) {
+      return;
+    }
+
+    const partition = renderPartitionTemplate(this.partitionTemplate, organization);
+    let entry: MappingEntry;
+    try {
+      entry = validateMappingEntry(this.mapperConfig, { partition });
+    } catch (error) {
+      // Retrying would not help, so the event is acknowledged and the organization has to be mapped by hand
+      this.logger.error(`Cannot provision organization ${organization.id}: ${describeError(error)}`);
+      return;
+    }
+    await store.putEntry(organization.id, entry);
+    this.logger.info(`Provisioned organization ${organization.id} with partition ${partition}`);
+    this.auditLogger.info(
+      "Mapping change",
+      mappingChangeEvent("create", organization.id, WEBHOOK_ACTOR, undefined, entry)
+    );
+  }
+
+  private async deprovisionOrganization(organizationId: string): Promise<void> {
+    const store = this.getStore(organizationId);
+    const entry = await store?.getEntry(organizationId);
+    if (!store || !entry || !(await store.deleteEntry(organizationId))) {
+      return;
+    }
+    this.logger.info(`Removed the mapping of deleted organization ${organizationId}`);
+    this.auditLogger.info(
+      "Mapping change",
+      mappingChangeEvent("delete", organizationId, WEBHOOK_ACTOR, entry, undefined)
+    );
+  }
+
+  private getStore(organizationId: string): MappingStore | undefined {
+    if (!this.store) {
+      this.logger.warn(
+        `Cannot update the mapping for organization ${organizationId}: the mapping backend is read-only`
+      );
+    }
+    return this.store;
+  }
+}
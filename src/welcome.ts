@@ -0,0 +1,236 @@
+/**
+ * Welcome page with an organization picker
+ * Users sign in with WorkOS AuthKit and are kept signed in by a sealed AuthKit session cookie. The page lists
+ * their active organization memberships with each organization's MCP URL and config snippets for MCP clients.
+ */
+
+import { User, WorkOS } from "@workos-inc/node";
+import { randomBytes } from "crypto";
+import express, { CookieOptions, Request, Response, Router } from "express";
+import type winston from "winston";
+import { describeError } from "./mapping.js";
+import { loadTemplate, renderTemplate } from "./templates.js";
+
+const SESSION_COOKIE = "mcp_gateway_session";
+const STATE_COOKIE = "mcp_gateway_welcome_state";
+const STATE_COOKIE_MAX_AGE_MS = 10 * 60 * 1000;
+const MCP_SERVER_NAME = "ragie";
+const MEMBERSHIPS_PAGE_SIZE = 100;
+
+export interface WelcomePageOptions {
+  workos: WorkOS;
+  clientId: string;
+  baseUrl: string;
+  // Password that AuthKit sessions are sealed with, at least 32 characters
+  cookiePassword: string;
+  mcpUrl: (organizationId: string) => string | Promise<string>;
+  hasMapping: (organizationId: string) => boolean | Promise<boolean>;
+  logger: winston.Logger;
+}
+
+interface Organization {
+  id: string;
+  name: string;
+  mcpUrl: string;
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const cookie of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = cookie.trim().split("=");
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join("="));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns ready-to-paste configuration for common MCP clients.
+ */
+export function mcpClientSnippets(mcpUrl: string): Record<string, string> {
+  const json = (value: unknown) => JSON.stringify(value, null, 2);
+  return {
+    claudeCode: `claude mcp add --transport http ${MCP_SERVER_NAME} ${mcpUrl}`,
+    cursor: json({ mcpServers: { [MCP_SERVER_NAME]: { url: mcpUrl } } }),
+    vscode: json({ servers: { [MCP_SERVER_NAME]: { type: "http", url: mcpUrl } } }),
+    claudeDesktop: json({ mcpServers: { [MCP_SERVER_NAME]: { command: "npx", args: ["-y", "mcp-remote", mcpUrl] } } }),
+  };
+}
+
+export class WelcomePage {
+  readonly router: Router;
+  private workos: WorkOS;
+  private clientId: string;
+  private baseUrl: string;
+  private cookiePassword: string;
+  private mcpUrl: (organizationId: string) => string | Promise<string>;
+  private hasMapping: (organizationId: string) => boolean | Promise<boolean>;
+  private logger: winston.Logger;
+  private pageTemplate: string;
+  private organizationTemplate: string;
+  private noOrganizationsTemplate: string;
+
+  constructor(options: WelcomePageOptions) {
+    this.workos = options.workos;
+    this.clientId = options.clientId;
+    this.baseUrl = options.baseUrl;
+    this.cookiePassword = options.cookiePassword;
+    this.mcpUrl = options.mcpUrl;
+    this.hasMapping = options.hasMapping;
+    this.logger = options.logger;
+    this.pageTemplate = loadTemplate("organizations.html");
+    this.organizationTemplate = loadTemplate("organization.html");
+    this.noOrganizationsTemplate = loadTemplate("no-organizations.html");
+
+    this.router = express.Router();
+    this.router.get("/", this.pageHandler.bind(this));
+    this.router.get("/callback", this.callbackHandler.bind(this));
+  }
+
+  async pageHandler(req: Request, res: Response) {
+    const sessionData = readCookie(req, SESSION_COOKIE);
+    if (!sessionData) {
+      this.signIn(res);
+      return;
+    }
+
+    let user: User;
+    try {
+      const session = this.workos.userManagement.loadSealedSession({
+        sessionData,
+        cookiePassword: this.cookiePassword,
+      });
+      const authentication = await session.authenticate();
+      if (authentication.authenticated) {
+        user = authentication.user;
+      } else {
+        // The access token inside the session expires quickly, so try to refresh before asking to sign in again
+        const refreshed = await session.refresh();
+        if (!refreshed.authenticated || !refreshed.sealedSession) {
+          this.logger.debug("Welcome page session could not be refreshed, signing in again");
+          this.signIn(res);
+          return;
+        }
+        res.cookie(SESSION_COOKIE, refreshed.sealedSession, this.cookieOptions());
+        user = refreshed.user;
+      }
+    } catch (error) {
+      // A cookie sealed with another password or a failed refresh request leaves nothing to recover the session from
+      this.logger.warn(`Could not load the welcome page session, signing in again: ${describeError(error)}`);
+      res.clearCookie(SESSION_COOKIE, this.cookieOptions());
+      this.signIn(res);
+      return;
+    }
+
+    let organizations: Organization[];
+    try {
+      organizations = await this.listOrganizations(user.id);
+    } catch (error) {
+      this.logger.error(`Could not list the organizations of user ${user.id}: ${describeError(error)}`);
+      res.status(502).type("text/plain").send("Your organizations could not be loaded. Please try again later.");
+      return;
+    }
+
+    const rendered = organizations.map(organization =>
+      renderTemplate(this.organizationTemplate, {
+        name: organization.name,
+        organizationId: organization.id,
+        mcpUrl: organization.mcpUrl,
+        ...mcpClientSnippets(organization.mcpUrl),
+      })
+    );
+    res
+      .set("Cache-Control", "no-store")
+      .type("html")
+      .send(
+        renderTemplate(this.pageTemplate, {
+          userName: user.firstName || user.email,
+          organizations: rendered.length > 0 ? rendered.join("\n") : this.noOrganizationsTemplate,
+        })
+      );
+  }
+
+  /**
+   * Completes the AuthKit sign-in and stores the sealed session in a cookie.
+   */
+  async callbackHandler(req: Request, res: Response) {
+    const code = req.query["code"];
+    const state = req.query["state"];
+    const expectedState = readCookie(req, STATE_COOKIE);
+    res.clearCookie(STATE_COOKIE, this.cookieOptions());
+    if (typeof code !== "string" || typeof state !== "string" || state !== expectedState) {
+      res.status(400).type("text/plain").send("The sign-in is invalid or has expired. Please try again.");
+      return;
+    }
+
+    let sealedSession: string | undefined;
+    try {
+      ({ sealedSession } = await this.workos.userManagement.authenticateWithCode({
+        clientId: this.clientId,
+        code,
+        session: { sealSession: true, cookiePassword: this.cookiePassword },
+      }));
+    } catch (error) {
+      this.logger.error(`Could not complete the welcome page sign-in with WorkOS: ${describeError(error)}`);
+    }
+    if (!sealedSession) {
+      res.status(502).type("text/plain").send("The sign-in could not be completed. Please try again later.");
+      return;
+    }
+    res.cookie(SESSION_COOKIE, sealedSession, this.cookieOptions()).redirect(`${this.baseUrl}/welcome`);
+  }
+
+  /**
+   * Lists the organizations that the user is an active member of and that the gateway serves, by name, with the
+   * URLs of their MCP endpoints.
+   */
+  private async listOrganizations(userId: string): Promise<Organization[]> {
+    const organizations: Organization[] = [];
+    let after: string | undefined;
+    do {
+      const memberships = await this.workos.userManagement.listOrganizationMemberships({
+        userId,
+        statuses: ["active"],
+        limit: MEMBERSHIPS_PAGE_SIZE,
+        ...(after !== undefined && { after }),
+      });
+      for (const membership of memberships.data) {
+        if (await this.hasMapping(membership.organizationId)) {
+          organizations.push({
+            id: membership.organizationId,
+            name: membership.organizationName,
+            mcpUrl: await this.mcpUrl(membership.organizationId),
+          });
+        }
+      }
+      after = memberships.listMetadata.after;
+    } while (after);
+    return organizations.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private signIn(res: Response): void {
+    const state = randomBytes(16).toString("base64url");
+    res.cookie(STATE_COOKIE, state, { ...this.cookieOptions(), maxAge: STATE_COOKIE_MAX_AGE_MS });
+    res.redirect(
+      this.workos.userManagement.getAuthorizationUrl({
+        provider: "authkit",
+        clientId: this.clientId,
+        redirectUri: `${this.baseUrl}/welcome/callback`,
+        state,
+      })
+    );
+  }
+
+  private cookieOptions(): CookieOptions {
+    return {
+      httpOnly: true,
+      secure: this.baseUrl.startsWith("https:"),
+      sameSite: "lax",
+      path: `${new URL(this.baseUrl).pathname.replace(/\/+$/, "")}/welcome`,
+    };
+  }
+}